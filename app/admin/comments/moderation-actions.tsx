@@ -6,14 +6,25 @@ import { useState } from 'react'
 
 interface ModerationActionsProps {
   commentId: string
+  /** Spam comments can only be re-moderated with a reason (no Spam button) */
+  currentStatus?: 'pending' | 'spam'
 }
 
-export default function ModerationActions({ commentId }: ModerationActionsProps) {
+export default function ModerationActions({ commentId, currentStatus = 'pending' }: ModerationActionsProps) {
   const [status, setStatus] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
   async function moderate(newStatus: 'approved' | 'rejected' | 'spam') {
+    // Changing an earlier decision (auto-filed spam) requires a reason for the audit log
+    let reason: string | undefined
+    if (currentStatus !== 'pending') {
+      reason = window.prompt(`Reason for marking this ${currentStatus} comment as ${newStatus}:`)?.trim()
+      if (!reason) {
+        return
+      }
+    }
+
     setLoading(true)
     setMessage(null)
 
@@ -24,11 +35,12 @@ export default function ModerationActions({ commentId }: ModerationActionsProps)
           'Content-Type': 'application/json',
           Authorization: `Bearer ${process.env.NEXT_PUBLIC_ADMIN_JWT || 'demo-token-for-testing'}`,
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify({ status: newStatus, reason }),
       })
 
       if (!res.ok) {
-        throw new Error(`Failed to moderate comment: ${res.status}`)
+        const body = await res.json().catch(() => null)
+        throw new Error(body?.error || `Failed to moderate comment: ${res.status}`)
       }
 
       setStatus(newStatus)
@@ -64,7 +76,7 @@ export default function ModerationActions({ commentId }: ModerationActionsProps)
             opacity: loading ? 0.6 : 1,
           }}
         >
-          Approve
+          {currentStatus === 'spam' ? 'Not spam (approve)' : 'Approve'}
         </button>
         <button
           onClick={() => moderate('rejected')}
@@ -81,21 +93,23 @@ export default function ModerationActions({ commentId }: ModerationActionsProps)
         >
           Reject
         </button>
-        <button
-          onClick={() => moderate('spam')}
-          disabled={loading}
-          style={{
-            padding: '0.5rem 1rem',
-            backgroundColor: '#dc3545',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: loading ? 'not-allowed' : 'pointer',
-            opacity: loading ? 0.6 : 1,
-          }}
-        >
-          Spam
-        </button>
+        {currentStatus !== 'spam' && (
+          <button
+            onClick={() => moderate('spam')}
+            disabled={loading}
+            style={{
+              padding: '0.5rem 1rem',
+              backgroundColor: '#dc3545',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: loading ? 'not-allowed' : 'pointer',
+              opacity: loading ? 0.6 : 1,
+            }}
+          >
+            Spam
+          </button>
+        )}
       </div>
 
       {message && (
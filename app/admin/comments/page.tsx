@@ -1,21 +1,61 @@
 // DEV ONLY – Admin moderation
 
 import Link from 'next/link'
-import ModerationActions from './moderation-actions'
+import PendingCommentQueue, { PendingComment } from './pending-comment-queue'
 
-interface Comment {
-  id: string
-  content: string
-  author_email: string
-  created_at: string
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  total_pages: number
 }
 
-export default async function AdminCommentsPage() {
-  let comments: Comment[] = []
+// Queue filters mirrored in the page URL and forwarded to the API
+const QUEUE_QUERY_KEYS = ['status', 'post_id', 'author_id', 'min_age_hours', 'max_age_hours', 'page'] as const
+type QueueQuery = Partial<Record<(typeof QUEUE_QUERY_KEYS)[number], string>>
+
+function queueQueryString(query: QueueQuery, overrides: QueueQuery = {}): string {
+  const params = new URLSearchParams()
+  const merged: QueueQuery = { ...query, ...overrides }
+  for (const key of QUEUE_QUERY_KEYS) {
+    const value = merged[key]
+    if (value) {
+      params.set(key, value)
+    }
+  }
+  const queryString = params.toString()
+  return queryString ? `?${queryString}` : ''
+}
+
+const fieldStyle = {
+  padding: '0.4rem 0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '0.9rem',
+}
+
+export default async function AdminCommentsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const params = await searchParams
+  const query: QueueQuery = {}
+  for (const key of QUEUE_QUERY_KEYS) {
+    const value = params[key]
+    if (typeof value === 'string' && value !== '') {
+      query[key] = value
+    }
+  }
+
+  const spamView = query.status === 'spam'
+
+  let comments: PendingComment[] = []
+  let pagination: Pagination | null = null
   let error: string | null = null
 
   try {
-    const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/admin/comments/pending`, {
+    const res = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}/api/admin/comments/pending${queueQueryString(query)}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -25,10 +65,13 @@ export default async function AdminCommentsPage() {
     })
 
     if (!res.ok) {
-      throw new Error(`Failed to fetch pending comments: ${res.status}`)
+      const body = await res.json().catch(() => null)
+      throw new Error(body?.error || `Failed to fetch pending comments: ${res.status}`)
     }
 
-    comments = await res.json()
+    const data = await res.json()
+    comments = data.data || []
+    pagination = data.pagination || null
   } catch (err: any) {
     error = err.message
   }
@@ -46,6 +89,41 @@ export default async function AdminCommentsPage() {
 
       <h1>Admin – Moderate Comments</h1>
 
+      <form
+        method="get"
+        action="/admin/comments"
+        style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'flex-end', gap: '0.75rem', margin: '1rem 0' }}
+      >
+        <select name="status" defaultValue={query.status || ''} style={fieldStyle}>
+          <option value="">Pending</option>
+          <option value="spam">Auto-filed spam</option>
+        </select>
+        <input name="post_id" placeholder="Post ID" defaultValue={query.post_id} style={fieldStyle} />
+        <input name="author_id" placeholder="Author ID" defaultValue={query.author_id} style={fieldStyle} />
+        <input
+          name="min_age_hours"
+          type="number"
+          min="0"
+          placeholder="Older than (hours)"
+          defaultValue={query.min_age_hours}
+          style={fieldStyle}
+        />
+        <input
+          name="max_age_hours"
+          type="number"
+          min="0"
+          placeholder="Newer than (hours)"
+          defaultValue={query.max_age_hours}
+          style={fieldStyle}
+        />
+        <button type="submit" style={{ padding: '0.45rem 1rem', cursor: 'pointer' }}>
+          Filter
+        </button>
+        <Link href="/admin/comments" style={{ fontSize: '0.9rem', color: '#3b82f6', textDecoration: 'none' }}>
+          Reset
+        </Link>
+      </form>
+
       {error && (
         <div style={{ padding: '1rem', backgroundColor: '#f8d7da', color: '#721c24', borderRadius: '4px', marginBottom: '1rem' }}>
           Error: {error}
@@ -53,33 +131,39 @@ export default async function AdminCommentsPage() {
       )}
 
       {comments.length === 0 ? (
-        <p>No pending comments to moderate.</p>
+        <p>{spamView ? 'No comments filed as spam.' : 'No pending comments to moderate.'}</p>
       ) : (
         <div>
-          <p>Pending comments: {comments.length}</p>
-          {comments.map((comment) => (
-            <div
-              key={comment.id}
-              style={{
-                border: '1px solid #ddd',
-                padding: '1rem',
-                marginBottom: '1rem',
-                borderRadius: '4px',
-              }}
-            >
-              <div style={{ marginBottom: '0.5rem' }}>
-                <strong>Author:</strong> {comment.author_email}
-              </div>
-              <div style={{ marginBottom: '0.5rem' }}>
-                <strong>Date:</strong> {new Date(comment.created_at).toLocaleString()}
-              </div>
-              <div style={{ marginBottom: '1rem', padding: '0.75rem', backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
-                <strong>Content:</strong>
-                <p style={{ margin: '0.5rem 0 0 0', whiteSpace: 'pre-wrap' }}>{comment.content}</p>
-              </div>
-              <ModerationActions commentId={comment.id} />
+          <p>
+            {spamView ? 'Spam comments' : 'Pending comments'}: {pagination?.total ?? comments.length}
+          </p>
+          <PendingCommentQueue comments={comments} />
+
+          {pagination && pagination.total_pages > 1 && (
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.9rem', color: '#666' }}>
+              <span>
+                Page {pagination.page} of {pagination.total_pages}
+              </span>
+              <span style={{ display: 'flex', gap: '1rem' }}>
+                {pagination.page > 1 && (
+                  <Link
+                    href={`/admin/comments${queueQueryString(query, { page: String(pagination.page - 1) })}`}
+                    style={{ color: '#3b82f6', textDecoration: 'none' }}
+                  >
+                    ← Previous
+                  </Link>
+                )}
+                {pagination.page < pagination.total_pages && (
+                  <Link
+                    href={`/admin/comments${queueQueryString(query, { page: String(pagination.page + 1) })}`}
+                    style={{ color: '#3b82f6', textDecoration: 'none' }}
+                  >
+                    Next →
+                  </Link>
+                )}
+              </span>
             </div>
-          ))}
+          )}
         </div>
       )}
     </main>
@@ -0,0 +1,218 @@
+// DEV ONLY – Admin moderation
+
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import ModerationActions from './moderation-actions'
+
+export interface PendingComment {
+  id: string
+  post_id: string
+  post: { id: string; title: string; slug: string | null }
+  content: string
+  author: { id: string; email: string }
+  status: 'pending' | 'spam'
+  created_at: string
+  spam_score: number
+  spam_reasons: string[]
+}
+
+interface ItemResult {
+  id: string
+  code: number
+  error?: string
+}
+
+interface PendingCommentQueueProps {
+  comments: PendingComment[]
+}
+
+type BulkStatus = 'approved' | 'rejected' | 'spam'
+
+const BULK_BUTTONS: Array<{ status: BulkStatus; label: string; background: string; color: string }> = [
+  { status: 'approved', label: 'Approve selected', background: '#28a745', color: 'white' },
+  { status: 'rejected', label: 'Reject selected', background: '#ffc107', color: 'black' },
+  { status: 'spam', label: 'Mark selected as spam', background: '#dc3545', color: 'white' },
+]
+
+export default function PendingCommentQueue({ comments }: PendingCommentQueueProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  // Outcome per comment of the last bulk request (moderated rows lose their checkbox)
+  const [outcomes, setOutcomes] = useState<Map<string, { status: BulkStatus | null; error?: string }>>(new Map())
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  // Bulk moderation is pending-only; spam comments are re-moderated one by one with a reason
+  const selectable = comments.filter(
+    (comment) => comment.status === 'pending' && !outcomes.get(comment.id)?.status
+  )
+  const allSelected = selectable.length > 0 && selectable.every((comment) => selected.has(comment.id))
+
+  function toggle(commentId: string) {
+    const next = new Set(selected)
+    if (next.has(commentId)) {
+      next.delete(commentId)
+    } else {
+      next.add(commentId)
+    }
+    setSelected(next)
+  }
+
+  function toggleAll() {
+    setSelected(allSelected ? new Set() : new Set(selectable.map((comment) => comment.id)))
+  }
+
+  async function moderateSelected(status: BulkStatus) {
+    const ids = [...selected]
+    if (ids.length === 0) {
+      return
+    }
+
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch('/api/admin/comments/moderate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${process.env.NEXT_PUBLIC_ADMIN_JWT || 'demo-token-for-testing'}`,
+        },
+        body: JSON.stringify({ items: ids.map((id) => ({ id, status })) }),
+      })
+
+      if (!res.ok) {
+        throw new Error(`Failed to moderate comments: ${res.status}`)
+      }
+
+      const data: { results: ItemResult[]; summary: { succeeded: number; failed: number } } = await res.json()
+
+      const nextOutcomes = new Map(outcomes)
+      for (const result of data.results) {
+        nextOutcomes.set(result.id, result.code === 200 ? { status } : { status: null, error: result.error })
+      }
+      setOutcomes(nextOutcomes)
+      setSelected(new Set(data.results.filter((result) => result.code !== 200).map((result) => result.id)))
+      setMessage({
+        type: data.summary.failed === 0 ? 'success' : 'error',
+        text: `${data.summary.succeeded} comment(s) marked as ${status}` +
+          (data.summary.failed > 0 ? `, ${data.summary.failed} failed` : ''),
+      })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to moderate comments' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div>
+      <div style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: '0.5rem',
+        marginBottom: '1rem',
+        padding: '0.75rem',
+        backgroundColor: '#f5f5f5',
+        borderRadius: '4px',
+      }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', marginRight: '0.5rem' }}>
+          <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={loading || selectable.length === 0} />
+          Select all ({selected.size} selected)
+        </label>
+        {BULK_BUTTONS.map((button) => (
+          <button
+            key={button.status}
+            onClick={() => moderateSelected(button.status)}
+            disabled={loading || selected.size === 0}
+            style={{
+              padding: '0.4rem 0.8rem',
+              backgroundColor: button.background,
+              color: button.color,
+              border: 'none',
+              borderRadius: '4px',
+              cursor: loading || selected.size === 0 ? 'not-allowed' : 'pointer',
+              opacity: loading || selected.size === 0 ? 0.6 : 1,
+            }}
+          >
+            {button.label}
+          </button>
+        ))}
+      </div>
+
+      {message && (
+        <p style={{ margin: '0 0 1rem 0', color: message.type === 'success' ? '#155724' : '#721c24' }}>
+          {message.text}
+        </p>
+      )}
+
+      {comments.map((comment) => {
+        const outcome = outcomes.get(comment.id)
+
+        return (
+          <div
+            key={comment.id}
+            style={{
+              border: '1px solid #ddd',
+              padding: '1rem',
+              marginBottom: '1rem',
+              borderRadius: '4px',
+              display: 'flex',
+              gap: '0.75rem',
+            }}
+          >
+            <div>
+              {comment.status === 'pending' && !outcome?.status && (
+                <input
+                  type="checkbox"
+                  aria-label="Select comment"
+                  checked={selected.has(comment.id)}
+                  onChange={() => toggle(comment.id)}
+                  disabled={loading}
+                />
+              )}
+            </div>
+            <div style={{ flex: 1 }}>
+              <div style={{ marginBottom: '0.5rem' }}>
+                <strong>Post:</strong>{' '}
+                <Link href={`/posts/${comment.post_id}`} style={{ color: '#3b82f6', textDecoration: 'none' }}>
+                  {comment.post.title || comment.post_id}
+                </Link>
+              </div>
+              <div style={{ marginBottom: '0.5rem' }}>
+                <strong>Author:</strong> {comment.author.email}
+              </div>
+              <div style={{ marginBottom: '0.5rem' }}>
+                <strong>Date:</strong> {new Date(comment.created_at).toLocaleString()}
+              </div>
+              {(comment.spam_score > 0 || comment.status === 'spam') && (
+                <div style={{ marginBottom: '0.5rem', color: '#856404' }}>
+                  <strong>Spam score:</strong> {comment.spam_score}
+                  {comment.spam_reasons.length > 0 && ` (${comment.spam_reasons.join('; ')})`}
+                </div>
+              )}
+              <div style={{ marginBottom: '1rem', padding: '0.75rem', backgroundColor: '#f5f5f5', borderRadius: '4px' }}>
+                <strong>Content:</strong>
+                <p style={{ margin: '0.5rem 0 0 0', whiteSpace: 'pre-wrap' }}>{comment.content}</p>
+              </div>
+              {outcome?.status ? (
+                <div style={{ color: '#155724', fontWeight: 'bold' }}>
+                  ✓ Marked as {outcome.status}
+                </div>
+              ) : (
+                <>
+                  {outcome?.error && (
+                    <p style={{ margin: '0 0 0.5rem 0', fontSize: '0.9rem', color: '#721c24' }}>{outcome.error}</p>
+                  )}
+                  <ModerationActions commentId={comment.id} currentStatus={comment.status} />
+                </>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
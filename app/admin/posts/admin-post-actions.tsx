@@ -2,16 +2,34 @@
 
 import { useState } from 'react'
 
+type PostStatus = 'draft' | 'scheduled' | 'published' | 'archived'
+type PostAction = 'publish' | 'archive' | 'unarchive' | 'delete' | 'restore'
+
 interface AdminPostActionsProps {
   postId: string
+  status: PostStatus
+  /** Soft-deleted posts only offer Restore */
+  deleted?: boolean
+}
+
+const ACTION_REQUESTS: Record<PostAction, { method: string; path: string; done: string }> = {
+  publish: { method: 'PATCH', path: '/publish', done: 'Post published successfully' },
+  archive: { method: 'PATCH', path: '/archive', done: 'Post archived successfully' },
+  unarchive: { method: 'PATCH', path: '/unarchive', done: 'Post unarchived successfully' },
+  delete: { method: 'DELETE', path: '', done: 'Post deleted successfully' },
+  restore: { method: 'POST', path: '/restore', done: 'Post restored successfully' },
 }
 
-export default function AdminPostActions({ postId }: AdminPostActionsProps) {
-  const [publishing, setPublishing] = useState(false)
+export default function AdminPostActions({ postId, status, deleted = false }: AdminPostActionsProps) {
+  const [pending, setPending] = useState<PostAction | null>(null)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
-  const handlePublish = async () => {
-    setPublishing(true)
+  const runAction = async (action: PostAction) => {
+    if (action === 'delete' && !window.confirm('Delete this post? It can be restored for a limited time.')) {
+      return
+    }
+
+    setPending(action)
     setMessage(null)
 
     try {
@@ -20,24 +38,25 @@ export default function AdminPostActions({ postId }: AdminPostActionsProps) {
         throw new Error('Admin JWT not configured')
       }
 
+      const { method, path, done } = ACTION_REQUESTS[action]
       const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
-      const response = await fetch(`${baseUrl}/api/posts/${postId}/publish`, {
-        method: 'PATCH',
+      const response = await fetch(`${baseUrl}/api/posts/${postId}${path}`, {
+        method,
         headers: {
           'Authorization': `Bearer ${jwt}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({}),
+        body: method === 'PATCH' ? JSON.stringify({}) : undefined,
       })
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}))
-        throw new Error(errorData.error || `Failed to publish (${response.status})`)
+        throw new Error(errorData.error || `Failed to ${action} (${response.status})`)
       }
 
       setMessage({
         type: 'success',
-        text: 'Post published successfully. Refreshing...',
+        text: `${done}. Refreshing...`,
       })
 
       // Refresh page after short delay
@@ -50,7 +69,7 @@ export default function AdminPostActions({ postId }: AdminPostActionsProps) {
         text: err instanceof Error ? err.message : 'An error occurred',
       })
     } finally {
-      setPublishing(false)
+      setPending(null)
     }
   }
 
@@ -58,6 +77,17 @@ export default function AdminPostActions({ postId }: AdminPostActionsProps) {
     alert('Reject not implemented in v1')
   }
 
+  const buttonStyle = (backgroundColor: string) => ({
+    padding: '0.5rem 1rem',
+    fontSize: '0.9rem',
+    backgroundColor,
+    color: 'white',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: pending ? 'not-allowed' : 'pointer',
+    opacity: pending ? 0.6 : 1,
+  })
+
   return (
     <div>
       {message && (
@@ -72,39 +102,62 @@ export default function AdminPostActions({ postId }: AdminPostActionsProps) {
           {message.text}
         </div>
       )}
-      <div style={{ display: 'flex', gap: '0.5rem' }}>
-        <button
-          onClick={handlePublish}
-          disabled={publishing}
-          style={{
-            padding: '0.5rem 1rem',
-            fontSize: '0.9rem',
-            backgroundColor: '#28a745',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: publishing ? 'not-allowed' : 'pointer',
-            opacity: publishing ? 0.6 : 1,
-          }}
-        >
-          {publishing ? 'Publishing...' : 'Publish'}
-        </button>
-        <button
-          onClick={handleReject}
-          disabled={publishing}
-          style={{
-            padding: '0.5rem 1rem',
-            fontSize: '0.9rem',
-            backgroundColor: '#dc3545',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: publishing ? 'not-allowed' : 'pointer',
-            opacity: publishing ? 0.6 : 1,
-          }}
-        >
-          Reject
-        </button>
+      <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'center' }}>
+        {deleted ? (
+          <button
+            onClick={() => runAction('restore')}
+            disabled={pending !== null}
+            style={buttonStyle('#28a745')}
+          >
+            {pending === 'restore' ? 'Restoring...' : 'Restore'}
+          </button>
+        ) : (
+          <>
+            {(status === 'draft' || status === 'scheduled') && (
+              <button
+                onClick={() => runAction('publish')}
+                disabled={pending !== null}
+                style={buttonStyle('#28a745')}
+              >
+                {pending === 'publish' ? 'Publishing...' : status === 'scheduled' ? 'Publish Now' : 'Publish'}
+              </button>
+            )}
+            {status === 'draft' && (
+              <button
+                onClick={handleReject}
+                disabled={pending !== null}
+                style={buttonStyle('#dc3545')}
+              >
+                Reject
+              </button>
+            )}
+            {status === 'published' && (
+              <button
+                onClick={() => runAction('archive')}
+                disabled={pending !== null}
+                style={buttonStyle('#6c757d')}
+              >
+                {pending === 'archive' ? 'Archiving...' : 'Archive'}
+              </button>
+            )}
+            {status === 'archived' && (
+              <button
+                onClick={() => runAction('unarchive')}
+                disabled={pending !== null}
+                style={buttonStyle('#17a2b8')}
+              >
+                {pending === 'unarchive' ? 'Unarchiving...' : 'Unarchive'}
+              </button>
+            )}
+            <button
+              onClick={() => runAction('delete')}
+              disabled={pending !== null}
+              style={buttonStyle('#343a40')}
+            >
+              {pending === 'delete' ? 'Deleting...' : 'Delete'}
+            </button>
+          </>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,123 @@
+import Link from 'next/link'
+import { AdminPostQuery } from './query'
+
+interface AdminPostFiltersProps {
+  query: AdminPostQuery
+}
+
+const fieldStyle = {
+  padding: '0.4rem 0.5rem',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '0.9rem',
+}
+
+const labelStyle = {
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: '0.25rem',
+  fontSize: '0.8rem',
+  color: '#4a5568',
+}
+
+/**
+ * Filter / sort form for the admin posts list
+ * Plain GET form: submitting rewrites the URL query (page resets to 1).
+ */
+export default function AdminPostFilters({ query }: AdminPostFiltersProps) {
+  return (
+    <form
+      method="get"
+      action="/admin/posts"
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignItems: 'flex-end',
+        gap: '0.75rem',
+        marginTop: '1.5rem',
+        padding: '1rem',
+        backgroundColor: '#f9fafb',
+        border: '1px solid #e2e8f0',
+        borderRadius: '4px',
+      }}
+    >
+      <label style={labelStyle}>
+        Title
+        <input name="search" defaultValue={query.search} placeholder="Search titles" style={fieldStyle} />
+      </label>
+
+      <label style={labelStyle}>
+        Status
+        <select name="status" defaultValue={query.status || ''} style={fieldStyle}>
+          <option value="">All</option>
+          <option value="draft">Draft</option>
+          <option value="scheduled">Scheduled</option>
+          <option value="published">Published</option>
+          <option value="archived">Archived</option>
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        Show
+        <select name="deleted" defaultValue={query.deleted || ''} style={fieldStyle}>
+          <option value="">Live posts</option>
+          <option value="true">Deleted posts</option>
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        Category (slug)
+        <input name="category" defaultValue={query.category} style={fieldStyle} />
+      </label>
+
+      <label style={labelStyle}>
+        Author ID
+        <input name="author_id" defaultValue={query.author_id} style={fieldStyle} />
+      </label>
+
+      <label style={labelStyle}>
+        Created from
+        <input type="date" name="from" defaultValue={query.from} style={fieldStyle} />
+      </label>
+
+      <label style={labelStyle}>
+        Created to
+        <input type="date" name="to" defaultValue={query.to} style={fieldStyle} />
+      </label>
+
+      <label style={labelStyle}>
+        Sort by
+        <select name="sort" defaultValue={query.sort || 'created_at'} style={fieldStyle}>
+          <option value="created_at">Created</option>
+          <option value="published_at">Published</option>
+          <option value="updated_at">Updated</option>
+        </select>
+      </label>
+
+      <label style={labelStyle}>
+        Order
+        <select name="order" defaultValue={query.order || 'desc'} style={fieldStyle}>
+          <option value="desc">Newest first</option>
+          <option value="asc">Oldest first</option>
+        </select>
+      </label>
+
+      <button
+        type="submit"
+        style={{
+          padding: '0.45rem 1rem',
+          backgroundColor: '#3b82f6',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+        }}
+      >
+        Apply
+      </button>
+      <Link href="/admin/posts" style={{ fontSize: '0.9rem', color: '#3b82f6', textDecoration: 'none' }}>
+        Reset
+      </Link>
+    </form>
+  )
+}
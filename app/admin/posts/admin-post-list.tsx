@@ -1,24 +1,41 @@
+import Link from 'next/link'
 import AdminPostActions from './admin-post-actions'
+import { AdminPostQuery, buildAdminPostQueryString } from './query'
 
 interface Post {
   id: string
   title: string
   slug?: string
-  status: 'draft' | 'published' | 'archived'
+  status: 'draft' | 'scheduled' | 'published' | 'archived'
   author?: {
     id: string
     email: string
   }
   created_at: string
+  publish_at?: string | null
   published_at?: string | null
+  deleted_at?: string | null
+}
+
+interface Pagination {
+  page: number
+  limit: number
+  total: number
+  total_pages: number
 }
 
 interface ApiResponse {
   data: Post[]
+  pagination: Pagination
+}
+
+interface AdminPostListProps {
+  query: AdminPostQuery
 }
 
-export default async function AdminPostList() {
+export default async function AdminPostList({ query }: AdminPostListProps) {
   let posts: Post[] = []
+  let pagination: Pagination | null = null
   let error: string | null = null
 
   try {
@@ -29,7 +46,7 @@ export default async function AdminPostList() {
       throw new Error('Admin JWT not configured')
     }
 
-    const response = await fetch(`${baseUrl}/api/admin/posts`, {
+    const response = await fetch(`${baseUrl}/api/admin/posts${buildAdminPostQueryString(query)}`, {
       headers: {
         'Authorization': `Bearer ${adminJwt}`,
       },
@@ -37,11 +54,14 @@ export default async function AdminPostList() {
     })
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch posts: ${response.status}`)
+      // 400s carry a message about the offending filter
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.error || `Failed to fetch posts: ${response.status}`)
     }
 
     const data: ApiResponse = await response.json()
     posts = data.data || []
+    pagination = data.pagination || null
   } catch (err) {
     error = err instanceof Error ? err.message : 'Failed to load posts'
   }
@@ -117,6 +137,21 @@ export default async function AdminPostList() {
                   }}>
                     PUBLISHED
                   </span>
+                ) : post.status === 'scheduled' ? (
+                  <span
+                    title={post.publish_at ? `Publishes ${new Date(post.publish_at).toLocaleString()}` : undefined}
+                    style={{
+                      display: 'inline-block',
+                      padding: '0.25rem 0.75rem',
+                      backgroundColor: '#17a2b8',
+                      color: '#fff',
+                      borderRadius: '4px',
+                      fontSize: '0.85rem',
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    SCHEDULED
+                  </span>
                 ) : (
                   <span style={{
                     display: 'inline-block',
@@ -147,17 +182,45 @@ export default async function AdminPostList() {
                 )}
               </td>
               <td style={{ padding: '1rem', textAlign: 'center' }}>
-                {post.status === 'draft' && (
-                  <AdminPostActions postId={post.id} />
-                )}
-                {post.status !== 'draft' && (
-                  <span style={{ color: '#999', fontSize: '0.9rem' }}>—</span>
-                )}
+                <AdminPostActions postId={post.id} status={post.status} deleted={!!post.deleted_at} />
               </td>
             </tr>
           ))}
         </tbody>
       </table>
+
+      {pagination && (
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginTop: '1rem',
+          fontSize: '0.9rem',
+          color: '#666',
+        }}>
+          <span>
+            Page {pagination.page} of {Math.max(pagination.total_pages, 1)} ({pagination.total} posts)
+          </span>
+          <span style={{ display: 'flex', gap: '1rem' }}>
+            {pagination.page > 1 && (
+              <Link
+                href={`/admin/posts${buildAdminPostQueryString(query, { page: String(pagination.page - 1) })}`}
+                style={{ color: '#007bff', textDecoration: 'none' }}
+              >
+                ← Previous
+              </Link>
+            )}
+            {pagination.page < pagination.total_pages && (
+              <Link
+                href={`/admin/posts${buildAdminPostQueryString(query, { page: String(pagination.page + 1) })}`}
+                style={{ color: '#007bff', textDecoration: 'none' }}
+              >
+                Next →
+              </Link>
+            )}
+          </span>
+        </div>
+      )}
     </div>
   )
 }
@@ -1,7 +1,23 @@
 import Link from 'next/link'
 import AdminPostList from './admin-post-list'
+import AdminPostFilters from './admin-post-filters'
+import { ADMIN_POST_QUERY_KEYS, AdminPostQuery } from './query'
+
+export default async function AdminPostsPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  // Filters, sort and page live in the URL so views can be bookmarked and shared
+  const params = await searchParams
+  const query: AdminPostQuery = {}
+  for (const key of ADMIN_POST_QUERY_KEYS) {
+    const value = params[key]
+    if (typeof value === 'string' && value !== '') {
+      query[key] = value
+    }
+  }
 
-export default function AdminPostsPage() {
   return (
     <main style={{ padding: '2rem', fontFamily: 'sans-serif', maxWidth: '1200px', margin: '0 auto' }}>
       {/* Breadcrumb */}
@@ -14,7 +30,8 @@ export default function AdminPostsPage() {
       </div>
 
       <h1>Admin – Manage Posts</h1>
-      <AdminPostList />
+      <AdminPostFilters query={query} />
+      <AdminPostList query={query} />
     </main>
   )
 }
@@ -0,0 +1,41 @@
+// URL query parameters of the admin posts page
+// Forwarded as-is to GET /api/admin/posts, which validates them
+
+export const ADMIN_POST_QUERY_KEYS = [
+  'status',
+  'author_id',
+  'category',
+  'from',
+  'to',
+  'search',
+  'deleted',
+  'sort',
+  'order',
+  'page',
+] as const
+
+export type AdminPostQueryKey = (typeof ADMIN_POST_QUERY_KEYS)[number]
+
+export type AdminPostQuery = Partial<Record<AdminPostQueryKey, string>>
+
+/**
+ * Build a query string from the current query with some keys replaced
+ * Keys set to undefined are dropped (e.g. page when filters change).
+ */
+export function buildAdminPostQueryString(
+  query: AdminPostQuery,
+  overrides: AdminPostQuery = {}
+): string {
+  const params = new URLSearchParams()
+  const merged: AdminPostQuery = { ...query, ...overrides }
+
+  for (const key of ADMIN_POST_QUERY_KEYS) {
+    const value = merged[key]
+    if (value) {
+      params.set(key, value)
+    }
+  }
+
+  const queryString = params.toString()
+  return queryString ? `?${queryString}` : ''
+}
@@ -0,0 +1,121 @@
+// GET /api/admin/audit - List Moderation Events (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest } from '@/lib/auth'
+import {
+  listModerationEvents,
+  countModerationEvents,
+  AuditTargetType,
+} from '@/lib/audit/persistence'
+
+const TARGET_TYPES: AuditTargetType[] = ['comment', 'post']
+
+/**
+ * GET /api/admin/audit - List Moderation Events (Admin Only)
+ *
+ * Returns the append-only moderation log (comment moderation, post publish/schedule),
+ * newest first.
+ * Filters: actor_id, target_type, target_id, from/to (created_at). Paginated.
+ *
+ * Spec: spec/api.md - GET /api/admin/audit
+ */
+export async function GET(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'audit:read')) {
+    return forbidden('Only admins can view the audit log')
+  }
+
+  // 2. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '20', 10)
+  const actorId = searchParams.get('actor_id')
+  const targetType = searchParams.get('target_type')
+  const targetId = searchParams.get('target_id')
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+
+  // 3. VALIDATE QUERY PARAMETERS
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return badRequest('Limit must be between 1 and 100')
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (actorId && !uuidRegex.test(actorId)) {
+    return badRequest('actor_id must be a valid UUID')
+  }
+
+  if (targetId && !uuidRegex.test(targetId)) {
+    return badRequest('target_id must be a valid UUID')
+  }
+
+  if (targetType && !TARGET_TYPES.includes(targetType as AuditTargetType)) {
+    return badRequest(`target_type must be one of: ${TARGET_TYPES.join(', ')}`)
+  }
+
+  if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+    return badRequest('from and to must be valid ISO 8601 dates')
+  }
+
+  if (from && to && Date.parse(from) > Date.parse(to)) {
+    return badRequest('from must not be after to')
+  }
+
+  // 4. FETCH PAGE + COUNT (via persistence layer)
+  const offset = (page - 1) * limit
+  const filters = {
+    actorId,
+    targetType: targetType as AuditTargetType | null,
+    targetId,
+    from: from ? new Date(from).toISOString() : null,
+    // A date-only `to` includes that whole day (same as GET /api/admin/posts)
+    to: to
+      ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to).toISOString()
+      : null,
+  }
+
+  const [
+    { data: events, error },
+    { count, error: countError },
+  ] = await Promise.all([
+    listModerationEvents(offset, limit, filters),
+    countModerationEvents(filters),
+  ])
+
+  if (error || countError) {
+    console.error('Failed to fetch moderation events:', error || countError)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN RESPONSE WITH PAGINATION
+  const total = count || 0
+
+  return NextResponse.json(
+    {
+      data: events || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    },
+    { status: 200 }
+  )
+}
@@ -0,0 +1,108 @@
+// POST /api/admin/categories/{id}/merge - Merge Category Into Another (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound } from '@/lib/auth'
+import {
+  getCategoryById,
+  listCategoryHierarchy,
+  mergeCategories,
+  formatAdminCategory,
+} from '@/lib/categories/persistence'
+import { getDescendantIds } from '@/lib/categories/tree'
+
+/**
+ * POST /api/admin/categories/{id}/merge - Merge Category (Admin Only)
+ *
+ * Request body: { target_id }
+ * Re-points every post linked to category {id} to target_id in one step, then
+ * deletes category {id}. Posts linked to both keep a single link to target.
+ * Child categories of {id} move under target; target cannot be a descendant of {id}.
+ *
+ * Spec: spec/api.md - POST /api/admin/categories/{id}/merge
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sourceId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'category:manage')) {
+    return forbidden('Only admins can manage categories')
+  }
+
+  // 2. PARSE & VALIDATE REQUEST BODY
+  let body: { target_id?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  if (!body.target_id || typeof body.target_id !== 'string') {
+    return badRequest('target_id is required')
+  }
+
+  const targetId = body.target_id
+
+  if (targetId === sourceId) {
+    return badRequest('Cannot merge a category into itself')
+  }
+
+  // 3. VERIFY BOTH CATEGORIES EXIST
+  const { data: source, error: sourceError } = await getCategoryById(sourceId)
+
+  if (sourceError || !source) {
+    return notFound('Category not found')
+  }
+
+  const { data: target, error: targetError } = await getCategoryById(targetId)
+
+  if (targetError || !target) {
+    return notFound('Target category not found')
+  }
+
+  // 4. TARGET MUST NOT BE A DESCENDANT (children would be re-parented into a cycle)
+  const { data: hierarchy, error: hierarchyError } = await listCategoryHierarchy()
+
+  if (hierarchyError || !hierarchy) {
+    console.error('Failed to load category hierarchy:', hierarchyError)
+    return NextResponse.json(
+      { error: 'Failed to merge categories' },
+      { status: 500 }
+    )
+  }
+
+  if (getDescendantIds(hierarchy, sourceId).includes(targetId)) {
+    return badRequest('Cannot merge a category into one of its descendants')
+  }
+
+  // 5. MERGE (single transaction in database)
+  const { data: movedCount, error: mergeError } = await mergeCategories(sourceId, targetId)
+
+  if (mergeError) {
+    console.error('Failed to merge categories:', mergeError)
+    return NextResponse.json(
+      { error: 'Failed to merge categories' },
+      { status: 500 }
+    )
+  }
+
+  // 6. RETURN SUCCESS RESPONSE
+  return NextResponse.json(
+    {
+      merged_id: sourceId,
+      target: formatAdminCategory(target),
+      posts_moved: Number(movedCount) || 0,
+    },
+    { status: 200 }
+  )
+}
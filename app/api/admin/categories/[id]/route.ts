@@ -0,0 +1,234 @@
+// PATCH /api/admin/categories/{id} - Update Category (Admin Only)
+// DELETE /api/admin/categories/{id} - Delete Category (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
+import { slugify } from '@/lib/posts/validation'
+import {
+  validateCategoryName,
+  validateCategorySlug,
+  validateParentCategoryId,
+} from '@/lib/categories/validation'
+import { wouldCreateCycle } from '@/lib/categories/tree'
+import {
+  getCategoryById,
+  listCategoryHierarchy,
+  findCategoryBySlug,
+  countCategoryPosts,
+  updateCategory,
+  deleteCategory,
+  formatAdminCategory,
+  CategoryUpdateData,
+} from '@/lib/categories/persistence'
+
+/**
+ * PATCH /api/admin/categories/{id} - Update Category (Admin Only)
+ *
+ * Request body (at least one field): { name?, slug?, is_active?, parent_id? }
+ * Renaming regenerates the slug via slugify(name) unless slug is given.
+ * is_active: false hides the category from GET /api/categories; posts keep their links.
+ * parent_id: null makes the category top-level; a category cannot be moved under
+ * itself or one of its descendants.
+ *
+ * Spec: spec/api.md - PATCH /api/admin/categories/{id}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: categoryId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'category:manage')) {
+    return forbidden('Only admins can manage categories')
+  }
+
+  // 2. PARSE REQUEST BODY
+  let body: { name?: unknown; slug?: unknown; is_active?: unknown; parent_id?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  if (
+    body.name === undefined &&
+    body.slug === undefined &&
+    body.is_active === undefined &&
+    body.parent_id === undefined
+  ) {
+    return badRequest('At least one of name, slug, is_active or parent_id is required')
+  }
+
+  // 3. VALIDATE FIELDS
+  const updates: CategoryUpdateData = {}
+
+  if (body.name !== undefined) {
+    const nameValidation = validateCategoryName(body.name)
+    if (!nameValidation.valid) {
+      return badRequest(nameValidation.error || 'Invalid name')
+    }
+    updates.name = (body.name as string).trim()
+  }
+
+  if (body.slug !== undefined) {
+    const slugValidation = validateCategorySlug(body.slug)
+    if (!slugValidation.valid) {
+      return badRequest(slugValidation.error || 'Invalid slug')
+    }
+    updates.slug = body.slug as string
+  } else if (updates.name !== undefined) {
+    updates.slug = slugify(updates.name)
+    if (!updates.slug) {
+      return badRequest('Name must contain at least one letter or digit')
+    }
+  }
+
+  if (body.is_active !== undefined) {
+    if (typeof body.is_active !== 'boolean') {
+      return badRequest('is_active must be a boolean')
+    }
+    updates.is_active = body.is_active
+  }
+
+  if (body.parent_id !== undefined) {
+    const parentValidation = validateParentCategoryId(body.parent_id)
+    if (!parentValidation.valid) {
+      return badRequest(parentValidation.error || 'Invalid parent_id')
+    }
+    updates.parent_id = body.parent_id as string | null
+  }
+
+  // 4. VERIFY CATEGORY EXISTS
+  const { data: category, error: fetchError } = await getCategoryById(categoryId)
+
+  if (fetchError || !category) {
+    return notFound('Category not found')
+  }
+
+  // 5. VALIDATE NEW PARENT (exists, no cycle)
+  if (updates.parent_id) {
+    const { data: hierarchy, error: hierarchyError } = await listCategoryHierarchy()
+    if (hierarchyError || !hierarchy) {
+      console.error('Failed to load category hierarchy:', hierarchyError)
+      return NextResponse.json(
+        { error: 'Failed to update category' },
+        { status: 500 }
+      )
+    }
+
+    if (!hierarchy.some((node) => node.id === updates.parent_id)) {
+      return badRequest('parent_id references a non-existent category')
+    }
+
+    if (wouldCreateCycle(hierarchy, categoryId, updates.parent_id)) {
+      return badRequest('A category cannot be moved under itself or one of its descendants')
+    }
+  }
+
+  // 6. ENFORCE SLUG UNIQUENESS
+  if (updates.slug !== undefined && updates.slug !== category.slug) {
+    const { data: existing, error: lookupError } = await findCategoryBySlug(updates.slug, categoryId)
+
+    if (lookupError) {
+      console.error('Failed to check category slug:', lookupError)
+      return NextResponse.json(
+        { error: 'Failed to update category' },
+        { status: 500 }
+      )
+    }
+
+    if (existing) {
+      return conflict(`A category with slug "${updates.slug}" already exists`)
+    }
+  }
+
+  // 7. UPDATE CATEGORY
+  const { data: updated, error: updateError } = await updateCategory(categoryId, updates)
+
+  if (updateError || !updated) {
+    if (updateError?.code === '23505') {
+      return conflict(`A category with slug "${updates.slug}" already exists`)
+    }
+    console.error('Failed to update category:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to update category' },
+      { status: 500 }
+    )
+  }
+
+  // 8. RETURN SUCCESS RESPONSE
+  return NextResponse.json(formatAdminCategory(updated), { status: 200 })
+}
+
+/**
+ * DELETE /api/admin/categories/{id} - Delete Category (Admin Only)
+ *
+ * Only categories with no linked posts can be deleted.
+ * In-use categories should be deactivated or merged instead (409).
+ *
+ * Spec: spec/api.md - DELETE /api/admin/categories/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: categoryId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'category:manage')) {
+    return forbidden('Only admins can manage categories')
+  }
+
+  // 2. VERIFY CATEGORY EXISTS
+  const { data: category, error: fetchError } = await getCategoryById(categoryId)
+
+  if (fetchError || !category) {
+    return notFound('Category not found')
+  }
+
+  // 3. BLOCK DELETE OF CATEGORIES IN USE
+  const { count, error: countError } = await countCategoryPosts(categoryId)
+
+  if (countError) {
+    console.error('Failed to count category posts:', countError)
+    return NextResponse.json(
+      { error: 'Failed to delete category' },
+      { status: 500 }
+    )
+  }
+
+  if ((count || 0) > 0) {
+    return conflict('Category is linked to posts; deactivate or merge it instead')
+  }
+
+  // 4. DELETE CATEGORY
+  const { error: deleteError } = await deleteCategory(categoryId)
+
+  if (deleteError) {
+    console.error('Failed to delete category:', deleteError)
+    return NextResponse.json(
+      { error: 'Failed to delete category' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN SUCCESS RESPONSE (204 No Content)
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,167 @@
+// GET /api/admin/categories - List All Categories (Admin Only)
+// POST /api/admin/categories - Create Category (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, conflict } from '@/lib/auth'
+import { slugify } from '@/lib/posts/validation'
+import {
+  validateCategoryName,
+  validateCategorySlug,
+  validateParentCategoryId,
+} from '@/lib/categories/validation'
+import {
+  listAllCategories,
+  listCategoryHierarchy,
+  findCategoryBySlug,
+  createCategory,
+  formatAdminCategory,
+} from '@/lib/categories/persistence'
+
+/**
+ * GET /api/admin/categories - List All Categories (Admin Only)
+ *
+ * Returns active and inactive categories with the number of linked posts.
+ *
+ * Spec: spec/api.md - GET /api/admin/categories
+ */
+export async function GET(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'category:manage')) {
+    return forbidden('Only admins can manage categories')
+  }
+
+  // 2. FETCH ALL CATEGORIES (via persistence layer)
+  const { data: categories, error } = await listAllCategories()
+
+  if (error) {
+    console.error('Failed to fetch categories:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch categories' },
+      { status: 500 }
+    )
+  }
+
+  // 3. RETURN RESPONSE
+  return NextResponse.json(
+    { data: (categories || []).map(formatAdminCategory) },
+    { status: 200 }
+  )
+}
+
+/**
+ * POST /api/admin/categories - Create Category (Admin Only)
+ *
+ * Request body: { name, slug?, parent_id? } - slug defaults to slugify(name)
+ *
+ * Spec: spec/api.md - POST /api/admin/categories
+ */
+export async function POST(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'category:manage')) {
+    return forbidden('Only admins can manage categories')
+  }
+
+  // 2. PARSE REQUEST BODY
+  let body: { name?: unknown; slug?: unknown; parent_id?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  // 3. VALIDATE NAME
+  const nameValidation = validateCategoryName(body.name)
+  if (!nameValidation.valid) {
+    return badRequest(nameValidation.error || 'Invalid name')
+  }
+
+  const name = (body.name as string).trim()
+
+  // 4. RESOLVE SLUG (explicit or generated)
+  let slug: string
+  if (body.slug !== undefined) {
+    const slugValidation = validateCategorySlug(body.slug)
+    if (!slugValidation.valid) {
+      return badRequest(slugValidation.error || 'Invalid slug')
+    }
+    slug = body.slug as string
+  } else {
+    slug = slugify(name)
+    if (!slug) {
+      return badRequest('Name must contain at least one letter or digit')
+    }
+  }
+
+  // 5. VALIDATE PARENT (optional)
+  let parentId: string | null = null
+  if (body.parent_id !== undefined && body.parent_id !== null) {
+    const parentValidation = validateParentCategoryId(body.parent_id)
+    if (!parentValidation.valid) {
+      return badRequest(parentValidation.error || 'Invalid parent_id')
+    }
+
+    const { data: hierarchy, error: hierarchyError } = await listCategoryHierarchy()
+    if (hierarchyError || !hierarchy) {
+      console.error('Failed to load category hierarchy:', hierarchyError)
+      return NextResponse.json(
+        { error: 'Failed to create category' },
+        { status: 500 }
+      )
+    }
+
+    if (!hierarchy.some((category) => category.id === body.parent_id)) {
+      return badRequest('parent_id references a non-existent category')
+    }
+
+    parentId = body.parent_id as string
+  }
+
+  // 6. ENFORCE SLUG UNIQUENESS
+  const { data: existing, error: lookupError } = await findCategoryBySlug(slug)
+
+  if (lookupError) {
+    console.error('Failed to check category slug:', lookupError)
+    return NextResponse.json(
+      { error: 'Failed to create category' },
+      { status: 500 }
+    )
+  }
+
+  if (existing) {
+    return conflict(`A category with slug "${slug}" already exists`)
+  }
+
+  // 7. CREATE CATEGORY
+  const { data: category, error: createError } = await createCategory({ name, slug, parent_id: parentId })
+
+  if (createError || !category) {
+    // Unique constraint backstop (concurrent create with the same slug)
+    if (createError?.code === '23505') {
+      return conflict(`A category with slug "${slug}" already exists`)
+    }
+    console.error('Failed to create category:', createError)
+    return NextResponse.json(
+      { error: 'Failed to create category' },
+      { status: 500 }
+    )
+  }
+
+  // 8. RETURN SUCCESS RESPONSE (201 Created)
+  return NextResponse.json(formatAdminCategory(category), { status: 201 })
+}
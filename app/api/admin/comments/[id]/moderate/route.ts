@@ -2,7 +2,7 @@
 // Specification: spec/api.md / spec/flows/admin-moderate-comments.md
 
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, hasRole, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
+import { requireAuth, can, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
 import {
   getCommentById,
   getPostForOwnershipCheck,
@@ -10,18 +10,23 @@ import {
   formatApprovedComment,
   formatRejectedComment,
 } from '@/lib/comments/persistence'
+import { validateModerationReason } from '@/lib/comments/validation'
+import { recordModerationEvents } from '@/lib/audit/persistence'
 
 /**
  * PATCH /api/admin/comments/{id}/moderate
  *
- * Moderate a pending comment (approve, reject, or mark as spam)
+ * Moderate a pending comment (approve, reject, or mark as spam), or re-moderate an
+ * already moderated one (e.g. hide a comment approved by mistake). Re-moderation
+ * requires a reason; approved_at is cleared when a comment is un-approved.
  *
  * Authentication: REQUIRED
  * Allowed roles: admin, or editor (for comments on own posts)
  *
  * Request body:
  * {
- *   "status": "approved" | "rejected" | "spam"
+ *   "status": "approved" | "rejected" | "spam",
+ *   "reason": "string (max 500 chars; required when status is not pending; recorded in the audit log)"
  * }
  *
  * Response (200 OK):
@@ -39,11 +44,11 @@ import {
  * }
  *
  * Errors:
- * - 400 Bad Request: Invalid status value
+ * - 400 Bad Request: Invalid status value or reason; missing reason for re-moderation
  * - 401 Unauthorized: Missing or invalid token
  * - 403 Forbidden: User is not admin or not editor of post
  * - 404 Not Found: Comment not found
- * - 409 Conflict: Comment already moderated (status ≠ pending)
+ * - 409 Conflict: Comment already has the requested status, or was moderated concurrently
  * - 500 Internal Server Error: Database error
  */
 export async function PATCH(
@@ -62,14 +67,14 @@ export async function PATCH(
   }
 
   // Step 2: Parse and validate request body
-  let body: { status?: unknown }
+  let body: { status?: unknown; reason?: unknown }
   try {
     body = await request.json()
   } catch {
     return badRequest('Invalid request body')
   }
 
-  const { status } = body
+  const { status, reason } = body
 
   // Validate status is one of the allowed values
   if (!status || typeof status !== 'string') {
@@ -83,6 +88,11 @@ export async function PATCH(
     )
   }
 
+  const reasonValidation = validateModerationReason(reason)
+  if (!reasonValidation.valid) {
+    return badRequest(reasonValidation.error || 'Invalid reason')
+  }
+
   // Step 3: Fetch comment by ID (via persistence layer)
   const { data: comment, error: commentError } = await getCommentById(commentId)
 
@@ -90,9 +100,16 @@ export async function PATCH(
     return notFound('Comment not found')
   }
 
-  // Step 4: Check comment status is pending (can only moderate pending comments)
-  if (comment.status !== 'pending') {
-    return conflict('Comment already moderated')
+  // Step 4: Check status transition
+  // Pending comments can be moderated freely; changing an earlier decision
+  // (approved / rejected / spam) requires a reason for the audit log.
+  if (comment.status === status) {
+    return conflict(`Comment is already ${status}`)
+  }
+
+  const isRemoderation = comment.status !== 'pending'
+  if (isRemoderation && (typeof reason !== 'string' || reason.trim().length === 0)) {
+    return badRequest('A reason is required to change an existing moderation decision')
   }
 
   // Step 5: Fetch post to check ownership (via persistence layer)
@@ -110,29 +127,28 @@ export async function PATCH(
 
   // Step 6: Check authorization
   // Admin can moderate any comment, Editor can only moderate comments on their own posts
-  const isAdmin = hasRole(auth.user, ['admin'])
-  const isEditor = hasRole(auth.user, ['editor'])
-
-  if (!isAdmin && !isEditor) {
+  if (!can(auth.user, 'comment:moderate')) {
     return forbidden('Only admins and editors can moderate comments')
   }
 
-  // If editor, verify they own the post
-  if (isEditor && !isAdmin) {
-    if (post.author_id !== auth.user.id) {
-      return forbidden(
-        'Editors can only moderate comments on their own posts'
-      )
-    }
+  if (!can(auth.user, 'comment:moderate', { post_author_id: post.author_id })) {
+    return forbidden(
+      'Editors can only moderate comments on their own posts'
+    )
   }
 
   // Step 7: Update comment status (via persistence layer)
   const { data: updatedComment, error: updateError } = await moderateComment(
     commentId,
-    status as 'approved' | 'rejected' | 'spam'
+    status as 'approved' | 'rejected' | 'spam',
+    comment.status
   )
 
   if (updateError || !updatedComment) {
+    // PGRST116 = status changed since Step 3 (another moderator got there first)
+    if (updateError?.code === 'PGRST116') {
+      return conflict('Comment was moderated concurrently; reload and try again')
+    }
     console.error('Comment update error:', updateError)
     return NextResponse.json(
       { error: 'Failed to update comment' },
@@ -140,7 +156,24 @@ export async function PATCH(
     )
   }
 
-  // Step 8: Return 200 OK with moderation result
+  // Step 8: Record audit event (failure is logged; the status change stands)
+  const { error: auditError } = await recordModerationEvents([
+    {
+      actor_id: auth.user.id,
+      target_type: 'comment',
+      target_id: commentId,
+      action: 'moderate',
+      previous_state: comment.status,
+      new_state: status,
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+    },
+  ])
+
+  if (auditError) {
+    console.error('Failed to record moderation event:', auditError)
+  }
+
+  // Step 9: Return 200 OK with moderation result
   // Response format varies based on status
   if (status === 'approved') {
     return NextResponse.json(formatApprovedComment(updatedComment))
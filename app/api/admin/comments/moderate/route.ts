@@ -0,0 +1,251 @@
+// Bulk Moderate Comments (Admin/Editor)
+// Specification: spec/api.md / spec/flows/admin-moderate-comments.md
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest } from '@/lib/auth'
+import {
+  getCommentsByIds,
+  getPostsForOwnershipCheck,
+  moderateComments,
+  formatApprovedComment,
+  formatRejectedComment,
+} from '@/lib/comments/persistence'
+import { validateModerationReason } from '@/lib/comments/validation'
+import { recordModerationEvents, ModerationEventData } from '@/lib/audit/persistence'
+
+type ModerationStatus = 'approved' | 'rejected' | 'spam'
+
+const VALID_STATUSES: ModerationStatus[] = ['approved', 'rejected', 'spam']
+const MAX_BULK_ITEMS = 100
+
+interface ItemResult {
+  id: string
+  code: number
+  result?: Record<string, unknown>
+  error?: string
+}
+
+/**
+ * POST /api/admin/comments/moderate
+ *
+ * Moderate up to 100 pending comments in one request. Every item gets the same
+ * checks as PATCH /api/admin/comments/{id}/moderate; a failing item does not
+ * stop the others. Bulk is pending-only: changing an earlier decision needs a
+ * per-comment reason and goes through the single endpoint.
+ *
+ * Authentication: REQUIRED
+ * Allowed roles: admin, or editor (for comments on own posts)
+ *
+ * Request body:
+ * {
+ *   "items": [{ "id": "uuid", "status": "approved" | "rejected" | "spam" }],
+ *   "reason": "string (optional, applies to every item; recorded in the audit log)"
+ * }
+ *
+ * Response (200 OK):
+ * {
+ *   "results": [
+ *     { "id": "uuid", "code": 200, "result": { ...same body as the single endpoint } },
+ *     { "id": "uuid", "code": 409, "error": "Comment already moderated" }
+ *   ],
+ *   "summary": { "total": 2, "succeeded": 1, "failed": 1 }
+ * }
+ *
+ * Per-item codes: 200, 400 (invalid id/status), 403 (not editor of post),
+ * 404 (not found), 409 (not pending), 500 (database error)
+ *
+ * Errors:
+ * - 400 Bad Request: Body is not { items: [...] }, empty, too long, has duplicate ids,
+ *   or reason is invalid
+ * - 401 Unauthorized: Missing or invalid token
+ * - 403 Forbidden: User is neither admin nor editor
+ * - 500 Internal Server Error: Database error while loading comments
+ */
+export async function POST(request: NextRequest) {
+  // Step 1: Authenticate request
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // Step 2: Check role (per-item ownership is checked in Step 5)
+  if (!can(auth.user, 'comment:moderate')) {
+    return forbidden('Only admins and editors can moderate comments')
+  }
+
+  // Step 3: Parse and validate request body
+  let body: { items?: unknown; reason?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid request body')
+  }
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return badRequest('items must be a non-empty array')
+  }
+
+  if (body.items.length > MAX_BULK_ITEMS) {
+    return badRequest(`At most ${MAX_BULK_ITEMS} items can be moderated per request`)
+  }
+
+  const reasonValidation = validateModerationReason(body.reason)
+  if (!reasonValidation.valid) {
+    return badRequest(reasonValidation.error || 'Invalid reason')
+  }
+
+  const reason = (body.reason as string | undefined) || null
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  // results[i] reports on body.items[i]
+  const items = body.items as Array<{ id?: unknown; status?: unknown }>
+  const results: ItemResult[] = new Array(items.length)
+  const requested: Array<{ index: number; id: string; status: ModerationStatus }> = []
+  const seen = new Set<string>()
+
+  for (const [index, item] of items.entries()) {
+    const id = typeof item?.id === 'string' ? item.id : ''
+
+    if (id && seen.has(id)) {
+      return badRequest(`Duplicate comment id: ${id}`)
+    }
+    seen.add(id)
+
+    if (!uuidRegex.test(id)) {
+      results[index] = { id, code: 400, error: 'id must be a valid UUID' }
+    } else if (!VALID_STATUSES.includes(item.status as ModerationStatus)) {
+      results[index] = {
+        id,
+        code: 400,
+        error: `Invalid status. Must be one of: ${VALID_STATUSES.join(', ')}`,
+      }
+    } else {
+      requested.push({ index, id, status: item.status as ModerationStatus })
+    }
+  }
+
+  // Step 4: Batch-load comments and their posts (via persistence layer)
+  const allowed = new Map<ModerationStatus, Array<{ index: number; id: string }>>()
+
+  if (requested.length > 0) {
+    const { data: comments, error: commentsError } = await getCommentsByIds(
+      requested.map((item) => item.id)
+    )
+
+    if (commentsError) {
+      console.error('Comment fetch error:', commentsError)
+      return NextResponse.json(
+        { error: 'Failed to fetch comments' },
+        { status: 500 }
+      )
+    }
+
+    const commentsById = new Map((comments || []).map((comment) => [comment.id, comment]))
+
+    // Post authors are only needed when the caller is limited to their own posts
+    const moderatesAny = can(auth.user, 'comment:moderate:any')
+    const postAuthors = new Map<string, string>()
+    if (!moderatesAny) {
+      const postIds = [...new Set((comments || []).map((comment) => comment.post_id))]
+      const { data: posts, error: postsError } = await getPostsForOwnershipCheck(postIds)
+
+      if (postsError) {
+        console.error('Post fetch error:', postsError)
+        return NextResponse.json(
+          { error: 'Failed to fetch posts' },
+          { status: 500 }
+        )
+      }
+
+      for (const post of posts || []) {
+        postAuthors.set(post.id, post.author_id)
+      }
+    }
+
+    // Step 5: Apply single-comment rules per item
+    for (const item of requested) {
+      const comment = commentsById.get(item.id)
+
+      if (!comment) {
+        results[item.index] = { id: item.id, code: 404, error: 'Comment not found' }
+      } else if (comment.status !== 'pending') {
+        results[item.index] = { id: item.id, code: 409, error: 'Comment already moderated' }
+      } else if (!can(auth.user, 'comment:moderate', { post_author_id: postAuthors.get(comment.post_id) })) {
+        results[item.index] = {
+          id: item.id,
+          code: 403,
+          error: 'Editors can only moderate comments on their own posts',
+        }
+      } else {
+        allowed.set(item.status, [...(allowed.get(item.status) || []), item])
+      }
+    }
+  }
+
+  // Step 6: Update each status group (via persistence layer)
+  const events: ModerationEventData[] = []
+  for (const [status, group] of allowed) {
+    const { data: updated, error: updateError } = await moderateComments(
+      group.map((item) => item.id),
+      status
+    )
+
+    if (updateError) {
+      console.error('Bulk comment update error:', updateError)
+      for (const item of group) {
+        results[item.index] = { id: item.id, code: 500, error: 'Failed to update comment' }
+      }
+      continue
+    }
+
+    const updatedById = new Map((updated || []).map((comment) => [comment.id as string, comment]))
+    for (const item of group) {
+      const comment = updatedById.get(item.id)
+      if (!comment) {
+        // Moderated by someone else between Step 4 and Step 6
+        results[item.index] = { id: item.id, code: 409, error: 'Comment already moderated' }
+      } else {
+        events.push({
+          actor_id: auth.user.id,
+          target_type: 'comment',
+          target_id: item.id,
+          action: 'moderate',
+          previous_state: 'pending',
+          new_state: status,
+          reason,
+        })
+        results[item.index] = {
+          id: item.id,
+          code: 200,
+          result: status === 'approved'
+            ? formatApprovedComment(comment)
+            : formatRejectedComment(comment),
+        }
+      }
+    }
+  }
+
+  // Step 7: Record audit events in one insert (failure is logged; the changes stand)
+  const { error: auditError } = await recordModerationEvents(events)
+
+  if (auditError) {
+    console.error('Failed to record moderation events:', auditError)
+  }
+
+  // Step 8: Return per-item report (same order as request items)
+  const succeeded = results.filter((result) => result.code === 200).length
+
+  return NextResponse.json(
+    {
+      results,
+      summary: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+      },
+    },
+    { status: 200 }
+  )
+}
@@ -2,32 +2,57 @@
 // Specification: spec/api.md / spec/flows/admin-moderate-comments.md
 
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, hasRole, forbidden } from '@/lib/auth'
-import { listPendingComments } from '@/lib/comments/persistence'
+import { requireAuth, can, forbidden, badRequest } from '@/lib/auth'
+import { listPendingComments, countPendingComments, QueueStatus } from '@/lib/comments/persistence'
+
+const QUEUE_STATUSES: QueueStatus[] = ['pending', 'spam']
+
+interface PendingCommentRow {
+  id: string
+  post_id: string
+  content: string
+  status: QueueStatus
+  created_at: string
+  spam_score: number | null
+  spam_reasons: string[] | null
+  users: { id: string; email: string } | Array<{ id: string; email: string }> | null
+  posts: { id: string; title: string; slug: string | null } | Array<{ id: string; title: string; slug: string | null }> | null
+}
 
 /**
  * GET /api/admin/comments/pending
  *
- * List all comments awaiting moderation (status = "pending")
+ * List a page of comments awaiting moderation (status = "pending"), or of comments
+ * auto-filed as spam (status = "spam") so false positives can be reviewed
  *
  * Specification rules:
  * - Authentication: REQUIRED
  * - Allowed roles: admin only
- * - Pagination: NOT required (v1)
+ * - Pagination: page (default 1), limit (default 20, max 100)
+ * - Filters: status (pending | spam, default pending), post_id, author_id,
+ *   min_age_hours, max_age_hours
  * - Ordering: created_at ASC (oldest first)
  *
  * Response (200 OK):
- * [
- *   {
- *     "id": "uuid",
- *     "post_id": "uuid",
- *     "content": "string",
- *     "author": { "id": "uuid", "email": "string" },
- *     "created_at": "ISO-8601"
- *   }
- * ]
+ * {
+ *   "data": [
+ *     {
+ *       "id": "uuid",
+ *       "post_id": "uuid",
+ *       "post": { "id": "uuid", "title": "string", "slug": "string | null" },
+ *       "content": "string",
+ *       "author": { "id": "uuid", "email": "string" },
+ *       "status": "pending | spam",
+ *       "created_at": "ISO-8601",
+ *       "spam_score": 0,
+ *       "spam_reasons": ["string"]
+ *     }
+ *   ],
+ *   "pagination": { "page": 1, "limit": 20, "total": 1, "total_pages": 1 }
+ * }
  *
  * Errors:
+ * - 400 Bad Request: Invalid pagination or filter
  * - 401 Unauthorized: Missing or invalid token
  * - 403 Forbidden: User is not admin
  * - 500 Internal Server Error: Database error
@@ -43,40 +68,127 @@ export async function GET(request: NextRequest) {
   }
 
   // Step 2: Check authorization (admin only)
-  if (!hasRole(auth.user, ['admin'])) {
+  if (!can(auth.user, 'comment:read-pending')) {
     return forbidden('Only admins can view pending comments')
   }
 
-  // Step 3: Fetch pending comments from persistence layer
+  // Step 3: Parse and validate query parameters
+  const { searchParams } = new URL(request.url)
+
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '20', 10)
+  const status = searchParams.get('status') || 'pending'
+  const postId = searchParams.get('post_id')
+  const authorId = searchParams.get('author_id')
+  const minAgeParam = searchParams.get('min_age_hours')
+  const maxAgeParam = searchParams.get('max_age_hours')
+
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return badRequest('Limit must be between 1 and 100')
+  }
+
+  if (!QUEUE_STATUSES.includes(status as QueueStatus)) {
+    return badRequest(`Status must be one of: ${QUEUE_STATUSES.join(', ')}`)
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (postId && !uuidRegex.test(postId)) {
+    return badRequest('post_id must be a valid UUID')
+  }
+
+  if (authorId && !uuidRegex.test(authorId)) {
+    return badRequest('author_id must be a valid UUID')
+  }
+
+  const minAgeHours = minAgeParam !== null ? Number(minAgeParam) : null
+  const maxAgeHours = maxAgeParam !== null ? Number(maxAgeParam) : null
+
+  if (
+    (minAgeHours !== null && (isNaN(minAgeHours) || minAgeHours < 0)) ||
+    (maxAgeHours !== null && (isNaN(maxAgeHours) || maxAgeHours < 0))
+  ) {
+    return badRequest('min_age_hours and max_age_hours must be non-negative numbers')
+  }
+
+  if (minAgeHours !== null && maxAgeHours !== null && minAgeHours > maxAgeHours) {
+    return badRequest('min_age_hours must not be greater than max_age_hours')
+  }
+
+  // Ages are converted to created_at bounds relative to now
+  const now = Date.now()
+  const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000).toISOString()
+  const filters = {
+    status: status as QueueStatus,
+    postId,
+    authorId,
+    createdBefore: minAgeHours !== null ? hoursAgo(minAgeHours) : null,
+    createdAfter: maxAgeHours !== null ? hoursAgo(maxAgeHours) : null,
+  }
+
+  // Step 4: Fetch page of pending comments and total from persistence layer
   try {
-    const { data, error } = await listPendingComments()
+    const offset = (page - 1) * limit
+    const [
+      { data, error },
+      { count, error: countError },
+    ] = await Promise.all([
+      listPendingComments(offset, limit, filters),
+      countPendingComments(filters),
+    ])
 
-    if (error) {
-      console.error('Database error listing pending comments:', error)
+    if (error || countError) {
+      console.error('Database error listing pending comments:', error || countError)
       return NextResponse.json(
         { error: 'Failed to fetch pending comments' },
         { status: 500 }
       )
     }
 
-    // Step 4: Format response
+    // Step 5: Format response
     // Transform database records into API response format
-    const formatted = (data || []).map((comment) => {
-      const author = Array.isArray(comment.users) ? comment.users[0] : undefined
+    const rows = (data || []) as unknown as PendingCommentRow[]
+    const formatted = rows.map((comment) => {
+      const author = Array.isArray(comment.users) ? comment.users[0] : comment.users
+      const post = Array.isArray(comment.posts) ? comment.posts[0] : comment.posts
 
       return {
         id: comment.id,
         post_id: comment.post_id,
+        post: {
+          id: post?.id || comment.post_id,
+          title: post?.title || '',
+          slug: post?.slug ?? null,
+        },
         content: comment.content,
         author: {
           id: author?.id || '',
           email: author?.email || '',
         },
+        status: comment.status,
         created_at: comment.created_at,
+        spam_score: Number(comment.spam_score ?? 0),
+        spam_reasons: comment.spam_reasons || [],
       }
     })
 
-    return NextResponse.json(formatted, { status: 200 })
+    const total = count || 0
+
+    return NextResponse.json(
+      {
+        data: formatted,
+        pagination: {
+          page,
+          limit,
+          total,
+          total_pages: Math.ceil(total / limit),
+        },
+      },
+      { status: 200 }
+    )
   } catch (err: any) {
     console.error('Unexpected error listing pending comments:', err)
     return NextResponse.json(
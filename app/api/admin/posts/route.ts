@@ -2,29 +2,50 @@
 // GET /api/admin/posts - List All Posts (Admin Only)
 
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, forbidden } from '@/lib/auth'
-import { listAllPostsForAdmin } from '@/lib/posts/persistence'
+import { requireAuth, can, forbidden, badRequest } from '@/lib/auth'
+import {
+  listAllPostsForAdmin,
+  countAllPostsForAdmin,
+  AdminPostSort,
+  PostStatus,
+} from '@/lib/posts/persistence'
+
+const POST_STATUSES: PostStatus[] = ['draft', 'scheduled', 'published', 'archived']
+const SORT_FIELDS: AdminPostSort[] = ['created_at', 'published_at', 'updated_at']
+const MAX_TITLE_SEARCH_LENGTH = 200
 
 interface PostResponse {
   id: string
   title: string
-  status: 'draft' | 'published' | 'archived'
+  status: 'draft' | 'scheduled' | 'published' | 'archived'
   author: {
     id: string
     email: string
   }
+  slug: string
   created_at: string
+  updated_at: string
+  publish_at: string | null
   published_at: string | null
+  deleted_at: string | null
 }
 
 interface ApiResponse {
   data: PostResponse[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    total_pages: number
+  }
 }
 
 /**
  * GET /api/admin/posts - List All Posts (Admin Only)
  *
- * Returns all posts regardless of status (draft and published).
+ * Returns a page of posts regardless of status (draft, scheduled, published, archived).
+ * Filters: status (comma-separated), author_id, category (slug), from/to (created_at),
+ * search (title substring), deleted (true lists only soft-deleted posts). Sort: created_at | published_at | updated_at, asc | desc.
  * For admin post management only.
  * Requires authentication (admin role only).
  *
@@ -41,24 +62,107 @@ export async function GET(request: NextRequest) {
   }
 
   // 2. VERIFY ROLE (admin only)
-  if (auth.user.role !== 'admin') {
+  if (!can(auth.user, 'post:list')) {
     return forbidden('Only admins can access this endpoint')
   }
 
-  // 3. FETCH ALL POSTS (via persistence layer)
-  const { data: posts, error } = await listAllPostsForAdmin()
+  // 3. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '10', 10)
+  const sort = searchParams.get('sort') || 'created_at'
+  const order = searchParams.get('order') || 'desc'
+  const statusParam = searchParams.get('status')
+  const authorId = searchParams.get('author_id')
+  const categorySlug = searchParams.get('category')
+  const from = searchParams.get('from')
+  const to = searchParams.get('to')
+  const search = (searchParams.get('search') || '').trim()
+  const deleted = searchParams.get('deleted')
+
+  // 4. VALIDATE QUERY PARAMETERS
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 50) {
+    return badRequest('Limit must be between 1 and 50')
+  }
+
+  if (!SORT_FIELDS.includes(sort as AdminPostSort)) {
+    return badRequest(`Sort must be one of: ${SORT_FIELDS.join(', ')}`)
+  }
+
+  if (order !== 'asc' && order !== 'desc') {
+    return badRequest('Order must be "asc" or "desc"')
+  }
+
+  let statuses: PostStatus[] | null = null
+  if (statusParam) {
+    const requested = statusParam.split(',').map((status) => status.trim())
+    if (requested.some((status) => !POST_STATUSES.includes(status as PostStatus))) {
+      return badRequest(`Status must be one of: ${POST_STATUSES.join(', ')}`)
+    }
+    statuses = requested as PostStatus[]
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (authorId && !uuidRegex.test(authorId)) {
+    return badRequest('author_id must be a valid UUID')
+  }
+
+  if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+    return badRequest('from and to must be valid ISO 8601 dates')
+  }
+
+  if (from && to && Date.parse(from) > Date.parse(to)) {
+    return badRequest('from must not be after to')
+  }
+
+  if (search.length > MAX_TITLE_SEARCH_LENGTH) {
+    return badRequest(`Search must be at most ${MAX_TITLE_SEARCH_LENGTH} characters`)
+  }
+
+  if (deleted !== null && deleted !== 'true' && deleted !== 'false') {
+    return badRequest('deleted must be "true" or "false"')
+  }
+
+  // 5. FETCH PAGE + COUNT (via persistence layer)
+  const offset = (page - 1) * limit
+  const filters = {
+    statuses,
+    authorId,
+    categorySlug,
+    createdFrom: from ? new Date(from).toISOString() : null,
+    // A date-only `to` (e.g. from <input type="date">) includes that whole day
+    createdTo: to
+      ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to).toISOString()
+      : null,
+    titleSearch: search || null,
+    deleted: deleted === 'true',
+  }
+
+  const [
+    { data: posts, error },
+    { count, error: countError },
+  ] = await Promise.all([
+    listAllPostsForAdmin(offset, limit, sort as AdminPostSort, order, filters),
+    countAllPostsForAdmin(filters),
+  ])
 
-  if (error) {
-    console.error('Failed to fetch posts:', error)
+  if (error || countError) {
+    console.error('Failed to fetch posts:', error || countError)
     return NextResponse.json(
       { error: 'Failed to fetch posts' },
       { status: 500 }
     )
   }
 
-  // 4. TRANSFORM RESPONSE
+  // 6. TRANSFORM RESPONSE
   // - Map posts to response format
   // - Extract author from nested users relation
+  const total = count || 0
   const response: ApiResponse = {
     data: (posts || []).map((post: any) => ({
       id: post.id,
@@ -68,9 +172,19 @@ export async function GET(request: NextRequest) {
         id: (Array.isArray(post.users) ? post.users[0] : post.users)?.id,
         email: (Array.isArray(post.users) ? post.users[0] : post.users)?.email,
       },
+      slug: post.slug,
       created_at: post.created_at,
+      updated_at: post.updated_at,
+      publish_at: post.publish_at || null,
       published_at: post.published_at || null,
+      deleted_at: post.deleted_at || null,
     })),
+    pagination: {
+      page,
+      limit,
+      total,
+      total_pages: Math.ceil(total / limit),
+    },
   }
 
   return NextResponse.json(response, { status: 200 })
@@ -0,0 +1,86 @@
+// POST /api/admin/tags/{id}/merge - Merge Tag Into Another (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound } from '@/lib/auth'
+import { getTagById, mergeTags, formatAdminTag } from '@/lib/tags/persistence'
+
+/**
+ * POST /api/admin/tags/{id}/merge - Merge Tag (Admin Only)
+ *
+ * Request body: { target_id }
+ * Rewrites every post_tags row from tag {id} to target_id in one step, then
+ * deletes tag {id}. Posts tagged with both keep a single link to target.
+ *
+ * Spec: spec/api.md - POST /api/admin/tags/{id}/merge
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: sourceId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'tag:manage')) {
+    return forbidden('Only admins can manage tags')
+  }
+
+  // 2. PARSE & VALIDATE REQUEST BODY
+  let body: { target_id?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  if (!body.target_id || typeof body.target_id !== 'string') {
+    return badRequest('target_id is required')
+  }
+
+  const targetId = body.target_id
+
+  if (targetId === sourceId) {
+    return badRequest('Cannot merge a tag into itself')
+  }
+
+  // 3. VERIFY BOTH TAGS EXIST
+  const { data: source, error: sourceError } = await getTagById(sourceId)
+
+  if (sourceError || !source) {
+    return notFound('Tag not found')
+  }
+
+  const { data: target, error: targetError } = await getTagById(targetId)
+
+  if (targetError || !target) {
+    return notFound('Target tag not found')
+  }
+
+  // 4. MERGE (single transaction in database)
+  const { data: movedCount, error: mergeError } = await mergeTags(sourceId, targetId)
+
+  if (mergeError) {
+    console.error('Failed to merge tags:', mergeError)
+    return NextResponse.json(
+      { error: 'Failed to merge tags' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN SUCCESS RESPONSE
+  return NextResponse.json(
+    {
+      merged_id: sourceId,
+      target: formatAdminTag(target),
+      posts_moved: Number(movedCount) || 0,
+    },
+    { status: 200 }
+  )
+}
@@ -0,0 +1,149 @@
+// PATCH /api/admin/tags/{id} - Rename Tag (Admin Only)
+// DELETE /api/admin/tags/{id} - Delete Tag (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
+import { slugify } from '@/lib/posts/validation'
+import { validateTagName } from '@/lib/tags/validation'
+import {
+  getTagById,
+  findTagBySlug,
+  updateTag,
+  deleteTag,
+  formatAdminTag,
+} from '@/lib/tags/persistence'
+
+/**
+ * PATCH /api/admin/tags/{id} - Rename Tag (Admin Only)
+ *
+ * Request body: { name } - slug is regenerated via slugify(name)
+ * If another tag already has the new slug, returns 409; merge the tags instead.
+ *
+ * Spec: spec/api.md - PATCH /api/admin/tags/{id}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tagId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'tag:manage')) {
+    return forbidden('Only admins can manage tags')
+  }
+
+  // 2. PARSE REQUEST BODY
+  let body: { name?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  // 3. VALIDATE NAME & GENERATE SLUG
+  const nameValidation = validateTagName(body.name)
+  if (!nameValidation.valid) {
+    return badRequest(nameValidation.error || 'Invalid name')
+  }
+
+  const name = (body.name as string).trim()
+  const slug = slugify(name)
+  if (!slug) {
+    return badRequest('Tag name must contain at least one letter or digit')
+  }
+
+  // 4. VERIFY TAG EXISTS
+  const { data: tag, error: fetchError } = await getTagById(tagId)
+
+  if (fetchError || !tag) {
+    return notFound('Tag not found')
+  }
+
+  // 5. ENFORCE SLUG UNIQUENESS
+  const { data: existing, error: lookupError } = await findTagBySlug(slug, tagId)
+
+  if (lookupError) {
+    console.error('Failed to check tag slug:', lookupError)
+    return NextResponse.json(
+      { error: 'Failed to rename tag' },
+      { status: 500 }
+    )
+  }
+
+  if (existing) {
+    return conflict(`A tag with slug "${slug}" already exists; merge into it instead`)
+  }
+
+  // 6. RENAME TAG
+  const { data: updated, error: updateError } = await updateTag(tagId, { name, slug })
+
+  if (updateError || !updated) {
+    if (updateError?.code === '23505') {
+      return conflict(`A tag with slug "${slug}" already exists; merge into it instead`)
+    }
+    console.error('Failed to rename tag:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to rename tag' },
+      { status: 500 }
+    )
+  }
+
+  // 7. RETURN SUCCESS RESPONSE
+  return NextResponse.json(formatAdminTag(updated), { status: 200 })
+}
+
+/**
+ * DELETE /api/admin/tags/{id} - Delete Tag (Admin Only)
+ *
+ * Removes the tag and its post_tags links (tags are optional on posts).
+ *
+ * Spec: spec/api.md - DELETE /api/admin/tags/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: tagId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'tag:manage')) {
+    return forbidden('Only admins can manage tags')
+  }
+
+  // 2. VERIFY TAG EXISTS
+  const { data: tag, error: fetchError } = await getTagById(tagId)
+
+  if (fetchError || !tag) {
+    return notFound('Tag not found')
+  }
+
+  // 3. DELETE TAG
+  const { error: deleteError } = await deleteTag(tagId)
+
+  if (deleteError) {
+    console.error('Failed to delete tag:', deleteError)
+    return NextResponse.json(
+      { error: 'Failed to delete tag' },
+      { status: 500 }
+    )
+  }
+
+  // 4. RETURN SUCCESS RESPONSE (204 No Content)
+  return new NextResponse(null, { status: 204 })
+}
@@ -0,0 +1,42 @@
+// DELETE /api/admin/tags/orphans - Delete Orphan Tags (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden } from '@/lib/auth'
+import { deleteOrphanTags } from '@/lib/tags/persistence'
+
+/**
+ * DELETE /api/admin/tags/orphans - Delete Orphan Tags (Admin Only)
+ *
+ * Deletes every tag that no post links to (e.g. left behind by tag_names
+ * typos or edits that dropped a tag).
+ *
+ * Spec: spec/api.md - DELETE /api/admin/tags/orphans
+ */
+export async function DELETE(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'tag:manage')) {
+    return forbidden('Only admins can manage tags')
+  }
+
+  // 2. DELETE ORPHANS (via persistence layer)
+  const { data: deletedCount, error } = await deleteOrphanTags()
+
+  if (error) {
+    console.error('Failed to delete orphan tags:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete orphan tags' },
+      { status: 500 }
+    )
+  }
+
+  // 3. RETURN SUCCESS RESPONSE
+  return NextResponse.json({ deleted: Number(deletedCount) || 0 }, { status: 200 })
+}
@@ -0,0 +1,122 @@
+// GET /api/admin/tags - List All Tags (Admin Only)
+// POST /api/admin/tags - Create Tag (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, conflict } from '@/lib/auth'
+import { slugify } from '@/lib/posts/validation'
+import { validateTagName } from '@/lib/tags/validation'
+import { listAllTags, findTagBySlug, createTag, formatAdminTag } from '@/lib/tags/persistence'
+
+/**
+ * GET /api/admin/tags - List All Tags (Admin Only)
+ *
+ * Returns all tags with the number of linked posts (0 = orphan).
+ *
+ * Spec: spec/api.md - GET /api/admin/tags
+ */
+export async function GET(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'tag:manage')) {
+    return forbidden('Only admins can manage tags')
+  }
+
+  // 2. FETCH ALL TAGS (via persistence layer)
+  const { data: tags, error } = await listAllTags()
+
+  if (error) {
+    console.error('Failed to fetch tags:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 }
+    )
+  }
+
+  // 3. RETURN RESPONSE
+  return NextResponse.json(
+    { data: (tags || []).map(formatAdminTag) },
+    { status: 200 }
+  )
+}
+
+/**
+ * POST /api/admin/tags - Create Tag (Admin Only)
+ *
+ * Request body: { name } - slug is slugify(name)
+ *
+ * Spec: spec/api.md - POST /api/admin/tags
+ */
+export async function POST(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'tag:manage')) {
+    return forbidden('Only admins can manage tags')
+  }
+
+  // 2. PARSE REQUEST BODY
+  let body: { name?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  // 3. VALIDATE NAME & GENERATE SLUG
+  const nameValidation = validateTagName(body.name)
+  if (!nameValidation.valid) {
+    return badRequest(nameValidation.error || 'Invalid name')
+  }
+
+  const name = (body.name as string).trim()
+  const slug = slugify(name)
+  if (!slug) {
+    return badRequest('Tag name must contain at least one letter or digit')
+  }
+
+  // 4. ENFORCE SLUG UNIQUENESS
+  const { data: existing, error: lookupError } = await findTagBySlug(slug)
+
+  if (lookupError) {
+    console.error('Failed to check tag slug:', lookupError)
+    return NextResponse.json(
+      { error: 'Failed to create tag' },
+      { status: 500 }
+    )
+  }
+
+  if (existing) {
+    return conflict(`A tag with slug "${slug}" already exists`)
+  }
+
+  // 5. CREATE TAG
+  const { data: tag, error: createError } = await createTag({ name, slug })
+
+  if (createError || !tag) {
+    // Unique constraint backstop (concurrent create with the same slug)
+    if (createError?.code === '23505') {
+      return conflict(`A tag with slug "${slug}" already exists`)
+    }
+    console.error('Failed to create tag:', createError)
+    return NextResponse.json(
+      { error: 'Failed to create tag' },
+      { status: 500 }
+    )
+  }
+
+  // 6. RETURN SUCCESS RESPONSE (201 Created)
+  return NextResponse.json(formatAdminTag(tag), { status: 201 })
+}
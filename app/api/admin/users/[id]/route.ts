@@ -0,0 +1,112 @@
+// PATCH /api/admin/users/{id} - Update User Role / Status (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound } from '@/lib/auth'
+import { getUserById, updateUser, UserRole, UserUpdateData } from '@/lib/users/persistence'
+
+const USER_ROLES: UserRole[] = ['admin', 'editor', 'viewer']
+
+/**
+ * PATCH /api/admin/users/{id} - Update User Role / Status (Admin Only)
+ *
+ * Body: { role?: "admin" | "editor" | "viewer", active?: boolean }
+ * Changes take effect on the user's next request: requireAuth reads the role and
+ * deactivation from the database, not from the token.
+ * Admins cannot change their own role or deactivate themselves (no self-lockout).
+ *
+ * Spec: spec/api.md - PATCH /api/admin/users/{id}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: userId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'user:manage')) {
+    return forbidden('Only admins can manage users')
+  }
+
+  // 2. PARSE & VALIDATE BODY
+  let body: { role?: unknown; active?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid request body')
+  }
+
+  const { role, active } = body
+
+  if (role === undefined && active === undefined) {
+    return badRequest('Provide role and/or active')
+  }
+
+  if (role !== undefined && !USER_ROLES.includes(role as UserRole)) {
+    return badRequest(`Role must be one of: ${USER_ROLES.join(', ')}`)
+  }
+
+  if (active !== undefined && typeof active !== 'boolean') {
+    return badRequest('active must be a boolean')
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (!uuidRegex.test(userId)) {
+    return notFound('User not found')
+  }
+
+  // 3. PREVENT SELF-LOCKOUT
+  if (userId === auth.user.id && ((role !== undefined && role !== 'admin') || active === false)) {
+    return forbidden('Admins cannot demote or deactivate themselves')
+  }
+
+  // 4. FETCH USER (via persistence layer)
+  const { data: user, error: fetchError } = await getUserById(userId)
+
+  if (fetchError) {
+    console.error('Failed to fetch user:', fetchError)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+
+  if (!user) {
+    return notFound('User not found')
+  }
+
+  // 5. APPLY CHANGES (only fields that differ; no-op returns the user unchanged)
+  const changes: UserUpdateData = {}
+
+  if (role !== undefined && role !== user.role) {
+    changes.role = role as UserRole
+  }
+
+  if (active !== undefined && active !== (user.deactivated_at === null)) {
+    changes.active = active as boolean
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return NextResponse.json(user, { status: 200 })
+  }
+
+  const { data: updated, error: updateError } = await updateUser(userId, changes)
+
+  if (updateError || !updated) {
+    console.error('Failed to update user:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+
+  // 6. RETURN UPDATED USER
+  return NextResponse.json(updated, { status: 200 })
+}
@@ -0,0 +1,107 @@
+// GET /api/admin/users - List Users (Admin Only)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest } from '@/lib/auth'
+import { listUsers, countUsers, UserRole } from '@/lib/users/persistence'
+
+const USER_ROLES: UserRole[] = ['admin', 'editor', 'viewer']
+const USER_STATUSES = ['active', 'deactivated', 'all']
+const MAX_EMAIL_SEARCH_LENGTH = 200
+
+/**
+ * GET /api/admin/users - List Users (Admin Only)
+ *
+ * Returns a page of users with their stored role and account status, ordered by email.
+ * Filters: role (comma-separated), search (email substring), status (active | deactivated | all).
+ *
+ * Spec: spec/api.md - GET /api/admin/users
+ */
+export async function GET(request: NextRequest) {
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  if (!can(auth.user, 'user:manage')) {
+    return forbidden('Only admins can manage users')
+  }
+
+  // 2. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '20', 10)
+  const roleParam = searchParams.get('role')
+  const search = (searchParams.get('search') || '').trim()
+  const status = searchParams.get('status') || 'all'
+
+  // 3. VALIDATE QUERY PARAMETERS
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return badRequest('Limit must be between 1 and 100')
+  }
+
+  let roles: UserRole[] | null = null
+  if (roleParam) {
+    const requested = roleParam.split(',').map((role) => role.trim())
+    if (requested.some((role) => !USER_ROLES.includes(role as UserRole))) {
+      return badRequest(`Role must be one of: ${USER_ROLES.join(', ')}`)
+    }
+    roles = requested as UserRole[]
+  }
+
+  if (!USER_STATUSES.includes(status)) {
+    return badRequest(`Status must be one of: ${USER_STATUSES.join(', ')}`)
+  }
+
+  if (search.length > MAX_EMAIL_SEARCH_LENGTH) {
+    return badRequest(`Search must be at most ${MAX_EMAIL_SEARCH_LENGTH} characters`)
+  }
+
+  // 4. FETCH PAGE + COUNT (via persistence layer)
+  const offset = (page - 1) * limit
+  const filters = {
+    roles,
+    emailSearch: search || null,
+    active: status === 'all' ? null : status === 'active',
+  }
+
+  const [
+    { data: users, error },
+    { count, error: countError },
+  ] = await Promise.all([
+    listUsers(offset, limit, filters),
+    countUsers(filters),
+  ])
+
+  if (error || countError) {
+    console.error('Failed to fetch users:', error || countError)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN RESPONSE WITH PAGINATION
+  const total = count || 0
+
+  return NextResponse.json(
+    {
+      data: users || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    },
+    { status: 200 }
+  )
+}
@@ -3,31 +3,53 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/db/supabase'
+import { listCategoryHierarchy } from '@/lib/categories/persistence'
+import { buildCategoryTree } from '@/lib/categories/tree'
 
 interface CategoryResponse {
   id: string
   name: string
   slug: string
+  parent_id: string | null
 }
 
 /**
  * GET /api/categories - List Categories
  *
  * Returns a list of all active categories.
+ * With ?tree=true, returns active categories nested under their parents (children arrays).
  * Public endpoint (no authentication required).
  * Required for Create Post UI (E5) to display available categories for selection.
  *
  * Spec: spec/api.md
  */
 export async function GET(request: NextRequest) {
+  // TREE VIEW (?tree=true)
+  // - Load the whole hierarchy once and nest it in memory
+  // - Inactive categories are dropped; their active children move up
+  const { searchParams } = new URL(request.url)
+  if (searchParams.get('tree') === 'true') {
+    const { data: hierarchy, error: hierarchyError } = await listCategoryHierarchy()
+
+    if (hierarchyError) {
+      console.error('Failed to fetch categories:', hierarchyError)
+      return NextResponse.json(
+        { error: 'Failed to fetch categories' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(buildCategoryTree(hierarchy || []), { status: 200 })
+  }
+
   // FETCH ACTIVE CATEGORIES
   // - Query database for all active categories (is_active = true)
   // - Order by name alphabetically
-  // - Return only id, name, slug fields
+  // - Return only id, name, slug, parent_id fields
 
   const { data: categories, error } = await supabase
     .from('categories')
-    .select('id, name, slug')
+    .select('id, name, slug, parent_id')
     .eq('is_active', true)
     .order('name', { ascending: true })
 
@@ -46,6 +68,7 @@ export async function GET(request: NextRequest) {
     id: cat.id,
     name: cat.name,
     slug: cat.slug,
+    parent_id: cat.parent_id,
   }))
 
   return NextResponse.json(response, { status: 200 })
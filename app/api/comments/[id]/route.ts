@@ -0,0 +1,242 @@
+// PATCH /api/comments/{id} - Edit Own Comment
+// DELETE /api/comments/{id} - Delete Own Comment
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, badRequest, notFound, forbidden, conflict, unprocessable } from '@/lib/auth'
+import { validateCommentContent } from '@/lib/comments/validation'
+import {
+  getCommentForAuthor,
+  getCommentEditWindowMinutes,
+  updateCommentContent,
+  createCommentRevision,
+  hasCommentReplies,
+  tombstoneComment,
+  deleteComment,
+} from '@/lib/comments/persistence'
+import { evaluateSpam } from '@/lib/spam'
+
+/** Statuses an author may still edit; rejected and spam comments are final for them */
+const EDITABLE_STATUSES = ['pending', 'approved']
+
+/**
+ * Whether the author's edit/delete window for a comment is still open
+ */
+function withinEditWindow(createdAt: string): boolean {
+  const windowMs = getCommentEditWindowMinutes() * 60 * 1000
+  return Date.now() - Date.parse(createdAt) <= windowMs
+}
+
+/**
+ * PATCH - Edit Own Comment
+ * Authentication: Required (comment author only)
+ *
+ * Replaces the content within the edit window. Status is unchanged: approved comments
+ * stay visible and are marked with edited_at. The replaced content is kept in
+ * comment_revisions.
+ *
+ * Spec: spec/api.md - PATCH /api/comments/{id}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: commentId } = await params
+
+  // 1. AUTHENTICATE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. PARSE & VALIDATE BODY
+  let body: { content?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid request body')
+  }
+
+  const contentValidation = validateCommentContent(
+    typeof body.content === 'string' ? body.content : undefined
+  )
+  if (!contentValidation.valid) {
+    return badRequest(contentValidation.error || 'Invalid content')
+  }
+
+  const content = (body.content as string).trim()
+
+  // 3. FETCH COMMENT (tombstones count as gone)
+  const { data: comment, error: fetchError } = await getCommentForAuthor(commentId)
+
+  if (fetchError || !comment || comment.deleted_at) {
+    return notFound('Comment not found')
+  }
+
+  // 4. AUTHORIZE (author only, within the edit window, editable status)
+  if (!can(auth.user, 'comment:edit', comment)) {
+    return forbidden('You can only edit your own comments')
+  }
+
+  if (!withinEditWindow(comment.created_at)) {
+    return forbidden(
+      `Comments can only be edited within ${getCommentEditWindowMinutes()} minutes of submission`
+    )
+  }
+
+  if (!EDITABLE_STATUSES.includes(comment.status)) {
+    return conflict(`Cannot edit a comment with status "${comment.status}"`)
+  }
+
+  if (content === comment.content) {
+    return badRequest('Content is unchanged')
+  }
+
+  // 5. SPAM CHECK (an edit must not turn an approved comment into spam)
+  const spam = await evaluateSpam({
+    content,
+    authorId: auth.user.id,
+    postId: comment.post_id,
+    excludeCommentId: commentId,
+  })
+
+  if (spam.action !== 'allow') {
+    return unprocessable('Edit rejected as spam')
+  }
+
+  // 6. UPDATE CONTENT + SPAM SIGNALS (via persistence layer)
+  const { data: updated, error: updateError } = await updateCommentContent(
+    commentId,
+    comment.content,
+    content,
+    spam
+  )
+
+  if (updateError?.code === 'PGRST116') {
+    return conflict('Comment was changed or deleted concurrently')
+  }
+
+  if (updateError || !updated) {
+    console.error('Comment edit error:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to edit comment' },
+      { status: 500 }
+    )
+  }
+
+  // 7. KEEP PRIOR CONTENT
+  const { error: revisionError } = await createCommentRevision({
+    comment_id: commentId,
+    content: comment.content,
+    created_by: auth.user.id,
+  })
+
+  if (revisionError) {
+    console.error('Failed to record comment revision:', revisionError)
+    // Continue anyway, comment was updated successfully
+  }
+
+  // 8. RETURN UPDATED COMMENT
+  const users = updated.users as { id: string; email: string } | Array<{ id: string; email: string }> | null
+  const author = Array.isArray(users) ? users[0] : users
+
+  return NextResponse.json(
+    {
+      id: updated.id,
+      post_id: updated.post_id,
+      author: {
+        id: author?.id || '',
+        email: author?.email || '',
+      },
+      content: updated.content,
+      status: updated.status,
+      parent_comment_id: updated.parent_comment_id,
+      created_at: updated.created_at,
+      approved_at: updated.approved_at,
+      edited_at: updated.edited_at,
+    },
+    { status: 200 }
+  )
+}
+
+/**
+ * DELETE - Delete Own Comment
+ * Authentication: Required (comment author only)
+ *
+ * Within the edit window, removes the comment. A comment with replies becomes a
+ * "[deleted]" tombstone so the thread below it still renders; otherwise the row
+ * (and its revisions) is deleted.
+ *
+ * Spec: spec/api.md - DELETE /api/comments/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: commentId } = await params
+
+  // 1. AUTHENTICATE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. FETCH COMMENT (tombstones count as gone)
+  const { data: comment, error: fetchError } = await getCommentForAuthor(commentId)
+
+  if (fetchError || !comment || comment.deleted_at) {
+    return notFound('Comment not found')
+  }
+
+  // 3. AUTHORIZE (author only, within the edit window)
+  if (!can(auth.user, 'comment:delete', comment)) {
+    return forbidden('You can only delete your own comments')
+  }
+
+  if (!withinEditWindow(comment.created_at)) {
+    return forbidden(
+      `Comments can only be deleted within ${getCommentEditWindowMinutes()} minutes of submission`
+    )
+  }
+
+  // 4. TOMBSTONE OR DELETE (via persistence layer)
+  const { data: hasReplies, error: repliesError } = await hasCommentReplies(commentId)
+
+  if (repliesError) {
+    console.error('Failed to check comment replies:', repliesError)
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    )
+  }
+
+  const { error: deleteError } = hasReplies
+    ? await tombstoneComment(commentId)
+    : await deleteComment(commentId)
+
+  if (deleteError?.code === 'PGRST116') {
+    return notFound('Comment not found')
+  }
+
+  if (deleteError) {
+    console.error('Failed to delete comment:', deleteError)
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN SUCCESS RESPONSE
+  return NextResponse.json(
+    {
+      id: commentId,
+      tombstone: hasReplies,
+    },
+    { status: 200 }
+  )
+}
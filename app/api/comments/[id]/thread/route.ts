@@ -0,0 +1,68 @@
+// GET /api/comments/{id}/thread - Continue Comment Thread
+
+import { NextRequest, NextResponse } from 'next/server'
+import { notFound } from '@/lib/auth'
+import { parseThreadDepth } from '@/lib/comments/validation'
+import {
+  getPublishedPost,
+  getApprovedCommentWithAuthor,
+  getApprovedReplyThreads,
+  groupRepliesByParent,
+  formatCommentWithReplies,
+} from '@/lib/comments/persistence'
+
+/**
+ * GET - Continue Comment Thread
+ * Authentication: Optional (public)
+ * Returns an approved comment with its approved replies nested up to max_depth.
+ * Used to load branches marked has_more_replies in GET /api/posts/{id}/comments.
+ *
+ * Spec: spec/api.md - GET /api/comments/{id}/thread
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: commentId } = await params
+
+  // 1. PARSE QUERY PARAMETERS
+  const url = new URL(request.url)
+  const maxDepth = parseThreadDepth(url.searchParams.get('max_depth'))
+
+  // 2. FETCH ROOT COMMENT (approved only)
+  const { data: comment, error: commentError } = await getApprovedCommentWithAuthor(commentId)
+
+  if (commentError || !comment) {
+    return notFound('Comment not found')
+  }
+
+  // 3. VERIFY POST IS PUBLISHED
+  const { data: post, error: postError } = await getPublishedPost(comment.post_id)
+
+  if (postError || !post || post.status !== 'published') {
+    return notFound('Comment not found')
+  }
+
+  // 4. FETCH REPLY TREE
+  const { data: replies, error: repliesError } = await getApprovedReplyThreads(
+    [comment.id],
+    maxDepth
+  )
+
+  if (repliesError) {
+    console.error('Thread fetch error:', repliesError)
+    return NextResponse.json(
+      { error: 'Failed to fetch comment thread' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN NESTED THREAD
+  return NextResponse.json(
+    formatCommentWithReplies(
+      comment as unknown as Record<string, unknown>,
+      groupRepliesByParent(replies || [])
+    ),
+    { status: 200 }
+  )
+}
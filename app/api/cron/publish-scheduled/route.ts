@@ -0,0 +1,66 @@
+// GET /api/cron/publish-scheduled - Scheduled Publishing Worker Entry Point
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { unauthorized } from '@/lib/auth'
+import { extractToken } from '@/lib/auth/supabase'
+import { publishDuePosts } from '@/lib/posts/scheduler'
+
+/**
+ * Constant-time secret comparison
+ * Both sides are hashed first so timingSafeEqual gets equal-length buffers and the
+ * secret's length is not leaked either.
+ */
+function secretMatches(token: string | null, secret: string): boolean {
+  if (!token) {
+    return false
+  }
+
+  const tokenDigest = createHash('sha256').update(token).digest()
+  const secretDigest = createHash('sha256').update(secret).digest()
+  return timingSafeEqual(tokenDigest, secretDigest)
+}
+
+/**
+ * Authentication: Required (shared secret, not a user JWT)
+ * Header: Authorization: Bearer {CRON_SECRET}
+ *
+ * Publishes every scheduled post whose publish_at has passed.
+ * Called by a cron job (e.g. Vercel Cron, system crontab + curl) or locally
+ * via `npm run publish-scheduled`.
+ *
+ * Response (200 OK):
+ * {
+ *   "published": [{ "id": "uuid", "slug": "string", "published_at": "ISO-8601" }],
+ *   "unscheduled": [{ "id": "uuid", "reason": "string" }],
+ *   "failed": [{ "id": "uuid", "reason": "string" }]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  // 1. VERIFY CRON SECRET
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    console.error('CRON_SECRET is not configured')
+    return NextResponse.json(
+      { error: 'Scheduled publishing is not configured' },
+      { status: 500 }
+    )
+  }
+
+  const token = extractToken(request.headers.get('Authorization'))
+  if (!secretMatches(token, cronSecret)) {
+    return unauthorized('Invalid cron secret')
+  }
+
+  // 2. PUBLISH DUE POSTS
+  const { report, error } = await publishDuePosts()
+
+  if (error) {
+    return NextResponse.json(
+      { error: 'Failed to publish scheduled posts' },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json(report, { status: 200 })
+}
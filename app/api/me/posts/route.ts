@@ -0,0 +1,99 @@
+// GET /api/me/posts - List Own Posts (Authenticated)
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, badRequest } from '@/lib/auth'
+import { MAX_SEARCH_QUERY_LENGTH } from '@/lib/search/query'
+import {
+  listPostsByAuthor,
+  countPostsByAuthor,
+  PostStatus,
+} from '@/lib/posts/persistence'
+
+const POST_STATUSES: PostStatus[] = ['draft', 'scheduled', 'published', 'archived']
+
+/**
+ * GET /api/me/posts - List Own Posts
+ *
+ * Returns the caller's posts in every status (draft, scheduled, published, archived),
+ * newest first. Soft-deleted posts are excluded.
+ * Query: status (comma-separated), search, page, limit
+ *
+ * Spec: spec/api.md - GET /api/me/posts
+ */
+export async function GET(request: NextRequest) {
+  // 1. AUTHENTICATE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '10', 10)
+  const statusParam = searchParams.get('status')
+  const search = (searchParams.get('search') || '').trim()
+
+  // 3. VALIDATE QUERY PARAMETERS
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 50) {
+    return badRequest('Limit must be between 1 and 50')
+  }
+
+  let statuses: PostStatus[] | null = null
+  if (statusParam) {
+    const requested = statusParam.split(',').map((status) => status.trim())
+    const invalid = requested.find((status) => !POST_STATUSES.includes(status as PostStatus))
+    if (invalid !== undefined) {
+      return badRequest(`Status must be one of: ${POST_STATUSES.join(', ')}`)
+    }
+    statuses = requested as PostStatus[]
+  }
+
+  if (search.length > MAX_SEARCH_QUERY_LENGTH) {
+    return badRequest(`Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`)
+  }
+
+  // 4. FETCH OWN POSTS (via persistence layer)
+  const offset = (page - 1) * limit
+  const filters = { statuses, search: search || null }
+
+  const [
+    { data: posts, error: queryError },
+    { count, error: countError },
+  ] = await Promise.all([
+    listPostsByAuthor(auth.user.id, offset, limit, filters),
+    countPostsByAuthor(auth.user.id, filters),
+  ])
+
+  if (queryError || countError) {
+    console.error('Failed to fetch own posts:', queryError || countError)
+    return NextResponse.json(
+      { error: 'Failed to fetch posts' },
+      { status: 500 }
+    )
+  }
+
+  // 5. RETURN RESPONSE WITH PAGINATION
+  const total = count || 0
+
+  return NextResponse.json(
+    {
+      data: posts || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    },
+    { status: 200 }
+  )
+}
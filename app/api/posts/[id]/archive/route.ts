@@ -0,0 +1,86 @@
+// PATCH /api/posts/{id}/archive - Archive Post
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, notFound, conflict } from '@/lib/auth'
+import { getPostById, archivePost, formatPostResponse } from '@/lib/posts/persistence'
+import { recordModerationEvents } from '@/lib/audit/persistence'
+
+/**
+ * Authentication: Required (editor for own posts, admin for any)
+ * Moves a published post to archived. Archived posts are hidden from public
+ * listings and detail pages and release their slug.
+ *
+ * Spec: spec/api.md - PATCH /api/posts/{id}/archive
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:archive')) {
+    return forbidden('Only editors and admins can archive posts')
+  }
+
+  // 3. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 4. CHECK POST STATUS (must be published)
+  if (post.status !== 'published') {
+    return conflict('Only published posts can be archived')
+  }
+
+  // 5. VERIFY OWNERSHIP (editors can only archive own posts)
+  if (!can(auth.user, 'post:archive', post)) {
+    return forbidden('Editors can only archive their own posts')
+  }
+
+  // 6. ARCHIVE POST (via persistence layer)
+  const { data: archivedPost, error: updateError } = await archivePost(postId)
+
+  if (updateError?.code === 'PGRST116') {
+    return conflict('Only published posts can be archived')
+  }
+
+  if (updateError || !archivedPost) {
+    console.error('Failed to archive post:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to archive post' },
+      { status: 500 }
+    )
+  }
+
+  // 7. RECORD AUDIT EVENT
+  const { error: auditError } = await recordModerationEvents([
+    {
+      actor_id: auth.user.id,
+      target_type: 'post',
+      target_id: postId,
+      action: 'archive',
+      previous_state: post.status,
+      new_state: archivedPost.status,
+    },
+  ])
+
+  if (auditError) {
+    console.error('Failed to record moderation event:', auditError)
+    // Continue anyway, post was archived successfully
+  }
+
+  // 8. RETURN SUCCESS RESPONSE (200 OK)
+  return NextResponse.json(formatPostResponse(archivedPost, false), { status: 200 })
+}
@@ -3,10 +3,11 @@
 // GET /api/posts/{id}/comments - List Approved Comments
 
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, badRequest, notFound } from '@/lib/auth'
+import { requireAuth, can, forbidden, badRequest, notFound, unprocessable } from '@/lib/auth'
 import {
   validateCommentContent,
   validateParentCommentId,
+  parseThreadDepth,
 } from '@/lib/comments/validation'
 import {
   getPublishedPost,
@@ -14,9 +15,13 @@ import {
   createPendingComment,
   listApprovedTopLevelComments,
   countApprovedTopLevelComments,
-  getApprovedReplies,
+  getApprovedReplyThreads,
+  groupRepliesByParent,
   formatCommentWithReplies,
 } from '@/lib/comments/persistence'
+import { encodeCursor, decodeCursor } from '@/lib/pagination/cursor'
+import { evaluateSpam } from '@/lib/spam'
+import { recordModerationEvents } from '@/lib/audit/persistence'
 
 /**
  * POST - Submit Comment
@@ -30,7 +35,8 @@ import {
  * 4. Validate parent_comment_id format if provided
  * 5. Check post exists and is published
  * 6. Check parent comment exists and is approved (if provided)
- * 7. Create comment with status=pending
+ * 7. Score for spam: reject (422) or auto-file as spam above the thresholds
+ * 8. Create comment with status=pending (or spam) and its spam score
  */
 export async function POST(
   request: NextRequest,
@@ -48,6 +54,10 @@ export async function POST(
   }
 
   // All authenticated roles can submit comments (viewer, editor, admin)
+  if (!can(auth.user, 'comment:create')) {
+    return forbidden('You are not allowed to comment')
+  }
+
   const userId = auth.user.id
 
   // Step 2: Parse request body
@@ -101,12 +111,23 @@ export async function POST(
     }
   }
 
-  // Step 7: Create comment with status=pending (via persistence layer)
+  // Step 7: Score for spam (heuristics in lib/spam; scorer failures fail open)
+  const trimmedContent = (content as string).trim()
+  const spam = await evaluateSpam({ content: trimmedContent, authorId: userId, postId })
+
+  if (spam.action === 'reject') {
+    return unprocessable('Comment rejected as spam')
+  }
+
+  // Step 8: Create comment with status=pending, or spam when auto-filed (via persistence layer)
   const { data: comment, error: createError } = await createPendingComment({
     post_id: postId,
     author_id: userId,
-    content: (content as string).trim(),
+    content: trimmedContent,
     parent_comment_id: (typeof parent_comment_id === 'string' ? parent_comment_id : null) || null,
+    status: spam.action === 'spam' ? 'spam' : 'pending',
+    spam_score: spam.score,
+    spam_reasons: spam.reasons,
   })
 
   if (createError || !comment) {
@@ -117,6 +138,25 @@ export async function POST(
     )
   }
 
+  // Auto-filed spam skips the queue, so log it like a moderation decision (actor = system)
+  if (comment.status === 'spam') {
+    const { error: auditError } = await recordModerationEvents([
+      {
+        actor_id: null,
+        target_type: 'comment',
+        target_id: comment.id,
+        action: 'moderate',
+        previous_state: null,
+        new_state: 'spam',
+        reason: `Spam score ${spam.score}: ${spam.reasons.join('; ')}`,
+      },
+    ])
+
+    if (auditError) {
+      console.error('Failed to record moderation event:', auditError)
+    }
+  }
+
   // Extract author from response (joined users table)
   const commentUsers = comment.users as Array<{ id: string; email: string }> | undefined
   const author = Array.isArray(commentUsers) ? commentUsers[0] : undefined
@@ -146,10 +186,10 @@ export async function POST(
  * Returns paginated list of approved comments with nested replies
  *
  * Step-by-step flow:
- * 1. Parse query parameters (page, limit, sort)
+ * 1. Parse query parameters (page, limit, sort, cursor, max_depth)
  * 2. Validate post exists and is published
  * 3. Fetch approved top-level comments (parent_comment_id IS NULL)
- * 4. For each comment, fetch approved replies
+ * 4. Fetch approved reply trees for the page (one query, up to max_depth)
  * 5. Apply pagination and return results
  */
 export async function GET(
@@ -163,6 +203,8 @@ export async function GET(
   const pageParam = url.searchParams.get('page')
   const limitParam = url.searchParams.get('limit')
   const sortParam = url.searchParams.get('sort')
+  const cursorParam = url.searchParams.get('cursor')
+  const maxDepth = parseThreadDepth(url.searchParams.get('max_depth'))
 
   // Validate and set defaults
   let page = 1
@@ -189,6 +231,19 @@ export async function GET(
     sort = sortParam
   }
 
+  // Cursor is opaque and tied to the sort order; unlike page/limit it is not
+  // defaulted, since silently restarting from the first page would loop clients.
+  if (cursorParam !== null && pageParam !== null) {
+    return badRequest('Use either page or cursor, not both')
+  }
+
+  const sortOrder: 'asc' | 'desc' = sort === 'newest' ? 'desc' : 'asc'
+  const cursor = cursorParam !== null ? decodeCursor(cursorParam, 'comments', sortOrder) : null
+
+  if (cursorParam !== null && !cursor) {
+    return badRequest('Invalid cursor')
+  }
+
   // Step 2: Verify post exists and is published
   const { data: post, error: postError } = await getPublishedPost(postId)
 
@@ -201,13 +256,15 @@ export async function GET(
   }
 
   // Step 3: Fetch approved top-level comments (paginated) via persistence layer
-  const offset = (page - 1) * limit
+  // One extra row is fetched to tell whether a next page (next_cursor) exists.
+  const offset = cursor ? 0 : (page - 1) * limit
 
-  const { data: comments, error: commentsError } = await listApprovedTopLevelComments(
+  const { data: rows, error: commentsError } = await listApprovedTopLevelComments(
     postId,
     offset,
-    limit,
-    sort === 'newest' ? 'desc' : 'asc'
+    limit + 1,
+    sortOrder,
+    cursor
   )
 
   if (commentsError) {
@@ -218,61 +275,40 @@ export async function GET(
     )
   }
 
-  // Step 4: For each comment, fetch approved replies
-  // NOTE: N+1 Query Pattern (Intentional in v1)
-  // Rationale: Replies are typically sparse (1-5 per comment in most posts).
-  // Single batch query with JOINs is more complex; N+1 is acceptable for:
-  //   - Low comment volume per post (typical: 5-50 comments)
-  //   - Simpler code and clearer business logic
-  //   - Better partial failure isolation (comment fails, replies return empty)
-  // Future optimization: Implement batch loading in v2 if comment volume increases
-  interface CommentData {
-    id: string
-    post_id: string
-    author_id: string
-    content: string
-    status: string
-    parent_comment_id: string | null
-    created_at: string
-    users: Array<{ id: string; email: string }>
-  }
+  const hasMore = (rows || []).length > limit
+  const comments = (rows || []).slice(0, limit)
+  const lastComment = comments[comments.length - 1]
+  const nextCursor = hasMore && lastComment
+    ? encodeCursor('comments', sortOrder, { value: lastComment.created_at, id: lastComment.id })
+    : null
+
+  // Step 4: Fetch approved reply trees for the whole page in one query
+  // Replies are grouped by parent in memory and nested up to max_depth;
+  // ordering (oldest-first) comes from the query.
+  let repliesByParent = new Map<string, Array<Record<string, unknown>>>()
+
+  if (comments.length > 0) {
+    const { data: replies, error: repliesError } = await getApprovedReplyThreads(
+      comments.map((comment) => comment.id),
+      maxDepth
+    )
 
-  interface ReplyData {
-    id: string
-    author_id: string
-    content: string
-    created_at: string
-    users: Array<{ id: string; email: string }>
+    if (repliesError) {
+      console.error('Replies fetch error:', repliesError)
+      // PARTIAL FAILURE HANDLING: Return top-level comments with empty replies
+      // Rationale: Top-level comments are primary content; replies are secondary.
+      // A failure to fetch replies should not prevent showing the main comments.
+      // Client can retry fetching replies separately if needed.
+    } else {
+      repliesByParent = groupRepliesByParent(replies || [])
+    }
   }
 
-  const commentsWithReplies = await Promise.all(
-    (comments || []).map(async (comment: CommentData) => {
-      const { data: replies, error: repliesError } = await getApprovedReplies(
-        postId,
-        comment.id
-      )
-
-      if (repliesError) {
-        console.error('Replies fetch error:', repliesError)
-        // PARTIAL FAILURE HANDLING: Return top-level comment with empty replies
-        // Rationale: Top-level comments are primary content; replies are secondary.
-        // A failure to fetch replies should not prevent showing the main comment.
-        // Client can retry fetching replies separately if needed.
-        return formatCommentWithReplies(comment as unknown as Record<string, unknown>)
-      }
-
-      const formattedReplies = (replies || []).map((reply: ReplyData) => ({
-        id: reply.id,
-        author: {
-          id: (Array.isArray(reply.users) ? reply.users[0] : reply.users)?.id || '',
-          email: (Array.isArray(reply.users) ? reply.users[0] : reply.users)?.email || '',
-        },
-        content: reply.content,
-        created_at: reply.created_at,
-      }))
-
-      return formatCommentWithReplies(comment as unknown as Record<string, unknown>, formattedReplies)
-    })
+  const commentsWithReplies = comments.map((comment) =>
+    formatCommentWithReplies(
+      comment as unknown as Record<string, unknown>,
+      repliesByParent
+    )
   )
 
   // Step 5: Get total count for pagination
@@ -298,10 +334,11 @@ export async function GET(
   return NextResponse.json({
     data: commentsWithReplies,
     pagination: {
-      page,
+      page: cursor ? null : page,
       limit,
       total,
       total_pages: totalPages,
+      next_cursor: nextCursor,
     },
   })
 }
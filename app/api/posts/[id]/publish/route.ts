@@ -2,19 +2,26 @@
 // PATCH /api/posts/{id}/publish - Publish Post
 
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, hasRole, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
-import { validateContentForPublish, slugify } from '@/lib/posts/validation'
-import { supabase } from '@/lib/db/supabase'
+import { requireAuth, can, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
 import {
   getPostById,
-  getPostBySlug,
+  getPostTagIds,
   publishPost,
+  schedulePost,
+  createPostRevision,
   formatPostResponse,
 } from '@/lib/posts/persistence'
+import { checkPublishable } from '@/lib/posts/publishing'
+import { recordModerationEvents } from '@/lib/audit/persistence'
+
+interface PublishPostRequest {
+  publish_at?: unknown
+}
 
 /**
  * Authentication: Required (editor for own posts, admin for any)
- * Publishes an existing draft post
+ * Publishes an existing draft post, or schedules it when a future publish_at is given.
+ * Scheduled posts are published by the worker in lib/posts/scheduler.ts.
  * 
  * Spec: spec/api.md - PATCH /api/posts/{id}/publish
  */
@@ -34,88 +41,96 @@ export async function PATCH(
   }
 
   // 2. VERIFY ROLE (editor, admin)
-  if (!hasRole(auth.user, ['editor', 'admin'])) {
+  if (!can(auth.user, 'post:publish')) {
     return forbidden('Only editors and admins can publish posts')
   }
 
-  // 3. FETCH POST (via persistence layer)
+  // 3. PARSE REQUEST BODY (optional publish_at for scheduling)
+  let body: PublishPostRequest = {}
+  try {
+    const text = await request.text()
+    body = text ? JSON.parse(text) : {}
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  let publishAt: string | null = null
+  if (body.publish_at !== undefined && body.publish_at !== null) {
+    if (typeof body.publish_at !== 'string' || isNaN(Date.parse(body.publish_at))) {
+      return badRequest('publish_at must be an ISO 8601 timestamp')
+    }
+
+    if (Date.parse(body.publish_at) <= Date.now()) {
+      return badRequest('publish_at must be in the future')
+    }
+
+    publishAt = new Date(body.publish_at).toISOString()
+  }
+
+  // 4. FETCH POST (via persistence layer)
   const { data: post, error: fetchError } = await getPostById(postId)
 
   if (fetchError || !post) {
     return notFound('Post not found')
   }
 
-  // 4. CHECK POST STATUS (must be draft)
-  if (post.status !== 'draft') {
+  // 5. CHECK POST STATUS (must be draft, or scheduled to reschedule/publish now)
+  if (post.status !== 'draft' && post.status !== 'scheduled') {
     return conflict('Post is not in draft status')
   }
 
-  // 5. VERIFY OWNERSHIP (editors can only publish own posts)
-  if (auth.user.role === 'editor' && post.author_id !== auth.user.id) {
+  // 6. VERIFY OWNERSHIP (editors can only publish own posts)
+  if (!can(auth.user, 'post:publish', post)) {
     return forbidden('Editors can only publish their own posts')
   }
 
-  // 6. VALIDATE CONTENT LENGTH (min 100 chars)
-  const contentValidation = validateContentForPublish(post.content)
-  if (!contentValidation.valid) {
-    return badRequest(contentValidation.error || 'Invalid content for publishing')
+  // 7. RUN PUBLISH CHECKS (content, categories, unique slug)
+  // Scheduled posts are checked now for early feedback and again by the worker when due.
+  const check = await checkPublishable(post)
+
+  if (check.error) {
+    return NextResponse.json(
+      { error: check.error.message },
+      { status: check.error.status }
+    )
   }
 
-  // 7. CHECK CATEGORIES (must have at least one) - Fetch category_ids
-  const { data: categories, error: categoriesError } = await supabase
-    .from('post_categories')
-    .select('category_id')
-    .eq('post_id', postId)
+  const { slug, categoryIds } = check
 
-  if (categoriesError || !categories || categories.length === 0) {
-    return badRequest('Post must have at least one category to publish')
-  }
+  // 8. SCHEDULE INSTEAD OF PUBLISHING (if publish_at provided)
+  if (publishAt) {
+    const { data: scheduledPost, error: scheduleError } = await schedulePost(postId, publishAt)
 
-  // Extract category_ids from relationships
-  const categoryIds = categories.map((c: any) => c.category_id)
-
-  // 8. GENERATE FINAL SLUG WITH UNIQUENESS CHECK
-  const baseSlug = slugify(post.title)
-  let slug = baseSlug
-  let slugAttempt = 0
-  const maxAttempts = 10
-
-  // Check for slug uniqueness (excluding current post)
-  while (slugAttempt < maxAttempts) {
-    const { data: existing, error: slugError } = await getPostBySlug(slug)
-
-    // getPostBySlug uses .single() which returns error if not found (PGRST116)
-    if (slugError) {
-      // PGRST116 = not found; slug is unique
-      if (slugError.code === 'PGRST116') {
-        break
-      }
-      
-      // Unknown error
-      if (slugAttempt === 0) {
-        console.error('Error checking slug uniqueness:', slugError)
-        return NextResponse.json(
-          { error: 'Failed to validate slug uniqueness' },
-          { status: 500 }
-        )
-      }
-      
-      break
+    if (scheduleError || !scheduledPost) {
+      console.error('Failed to schedule post:', scheduleError)
+      return NextResponse.json(
+        { error: 'Failed to schedule post' },
+        { status: 500 }
+      )
     }
 
-    // Slug exists; check if it's the current post
-    if (existing && existing.id === postId) {
-      // Same post, slug is available (was draft, now publishing)
-      break
+    const formatted = formatPostResponse(scheduledPost, false) as Record<string, unknown>
+    formatted.category_ids = categoryIds
+
+    const { data: tagRecords } = await getPostTagIds(postId)
+    formatted.tag_ids = tagRecords?.map((t) => t.tag_id) || []
+
+    const { error: auditError } = await recordModerationEvents([
+      {
+        actor_id: auth.user.id,
+        target_type: 'post',
+        target_id: postId,
+        action: 'schedule',
+        previous_state: post.status,
+        new_state: 'scheduled',
+      },
+    ])
+
+    if (auditError) {
+      console.error('Failed to record moderation event:', auditError)
     }
 
-    // Slug belongs to different post; try next variant
-    slugAttempt++
-    slug = `${baseSlug}-${slugAttempt}`
-  }
-
-  if (slugAttempt >= maxAttempts) {
-    return conflict('Could not generate unique slug for this post')
+    return NextResponse.json(formatted, { status: 200 })
   }
 
   // 9. UPDATE POST TO PUBLISHED STATE (via persistence layer)
@@ -134,12 +149,42 @@ export async function PATCH(
   formatted.category_ids = categoryIds
   
   // Fetch tag_ids from persistence
-  const { data: tagRecords } = await supabase
-    .from('post_tags')
-    .select('tag_id')
-    .eq('post_id', postId)
+  const { data: tagRecords } = await getPostTagIds(postId)
+
+  formatted.tag_ids = tagRecords?.map((t) => t.tag_id) || []
+
+  // 11. RECORD PUBLISH REVISION
+  const { error: revisionError } = await createPostRevision({
+    post_id: postId,
+    title: updatedPost.title,
+    content: updatedPost.content,
+    category_ids: categoryIds,
+    tag_ids: formatted.tag_ids as string[],
+    event: 'published',
+    created_by: auth.user.id,
+  })
+
+  if (revisionError) {
+    console.error('Failed to record revision:', revisionError)
+    // Continue anyway, post was published successfully
+  }
 
-  formatted.tag_ids = tagRecords?.map((t: any) => t.tag_id) || []
+  // 12. RECORD AUDIT EVENT
+  const { error: auditError } = await recordModerationEvents([
+    {
+      actor_id: auth.user.id,
+      target_type: 'post',
+      target_id: postId,
+      action: 'publish',
+      previous_state: post.status,
+      new_state: 'published',
+    },
+  ])
+
+  if (auditError) {
+    console.error('Failed to record moderation event:', auditError)
+    // Continue anyway, post was published successfully
+  }
 
   return NextResponse.json(formatted, { status: 200 })
 }
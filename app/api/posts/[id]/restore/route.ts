@@ -0,0 +1,107 @@
+// POST /api/posts/{id}/restore - Restore Deleted Post
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, notFound, conflict } from '@/lib/auth'
+import {
+  getDeletedPostById,
+  restoreDeletedPost,
+  getRestoreWindowDays,
+  formatPostResponse,
+} from '@/lib/posts/persistence'
+import { slugForRestore } from '@/lib/posts/slug'
+import { recordModerationEvents } from '@/lib/audit/persistence'
+
+/**
+ * Authentication: Required (editor for own posts, admin for any)
+ * Undoes a soft delete within the restore window (POST_RESTORE_WINDOW_DAYS).
+ * The post returns to the status and slug it had when deleted; a published post
+ * gets a fresh unique slug only if its old one was taken in the meantime.
+ *
+ * Spec: spec/api.md - POST /api/posts/{id}/restore
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:delete')) {
+    return forbidden('Only editors and admins can restore posts')
+  }
+
+  // 3. FETCH DELETED POST (via persistence layer)
+  const { data: post, error: fetchError } = await getDeletedPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Deleted post not found')
+  }
+
+  // 4. VERIFY OWNERSHIP (editors can only restore own posts)
+  if (!can(auth.user, 'post:delete', post)) {
+    return forbidden('Editors can only restore their own posts')
+  }
+
+  // 5. CHECK RESTORE WINDOW
+  const windowMs = getRestoreWindowDays() * 24 * 60 * 60 * 1000
+  if (Date.now() - Date.parse(post.deleted_at) > windowMs) {
+    return conflict('Restore window has expired')
+  }
+
+  // 6. RESOLVE SLUG (published posts may have lost theirs while deleted)
+  const slugResult = await slugForRestore(post)
+
+  if (slugResult.error === 'lookup_failed') {
+    return NextResponse.json(
+      { error: 'Failed to validate slug uniqueness' },
+      { status: 500 }
+    )
+  }
+
+  if (slugResult.error === 'exhausted') {
+    return conflict('Could not generate unique slug for this post')
+  }
+
+  // 7. RESTORE POST (via persistence layer)
+  const { data: restoredPost, error: updateError } = await restoreDeletedPost(
+    postId,
+    slugResult.slug
+  )
+
+  if (updateError || !restoredPost) {
+    console.error('Failed to restore post:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to restore post' },
+      { status: 500 }
+    )
+  }
+
+  // 8. RECORD AUDIT EVENT
+  const { error: auditError } = await recordModerationEvents([
+    {
+      actor_id: auth.user.id,
+      target_type: 'post',
+      target_id: postId,
+      action: 'restore',
+      previous_state: 'deleted',
+      new_state: restoredPost.status,
+    },
+  ])
+
+  if (auditError) {
+    console.error('Failed to record moderation event:', auditError)
+    // Continue anyway, post was restored successfully
+  }
+
+  // 9. RETURN SUCCESS RESPONSE (200 OK)
+  return NextResponse.json(formatPostResponse(restoredPost, false), { status: 200 })
+}
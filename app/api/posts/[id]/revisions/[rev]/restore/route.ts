@@ -0,0 +1,193 @@
+// POST /api/posts/{id}/revisions/{rev}/restore - Restore Post Revision
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
+import { validateContentForPublish } from '@/lib/posts/validation'
+import {
+  getPostById,
+  getPostRevision,
+  updatePost,
+  replacePostCategories,
+  replacePostTags,
+  recordPreviousSlug,
+  createPostRevision,
+  formatPostResponse,
+  PostUpdateData,
+} from '@/lib/posts/persistence'
+import { slugForTitleChange } from '@/lib/posts/slug'
+import { supabase } from '@/lib/db/supabase'
+
+/**
+ * Authentication: Required (editor for own posts, admin for any)
+ * Copies title, content, categories and tags from a revision back onto the post
+ * and records the result as a new 'restored' revision. Status is unchanged.
+ *
+ * Spec: spec/api.md - POST /api/posts/{id}/revisions/{rev}/restore
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; rev: string }> }
+) {
+  const { id: postId, rev } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:revisions')) {
+    return forbidden('Only editors and admins can restore revisions')
+  }
+
+  // 3. VALIDATE REVISION NUMBER
+  const revisionNumber = parseInt(rev, 10)
+  if (isNaN(revisionNumber) || revisionNumber < 1) {
+    return badRequest('Revision must be a positive integer')
+  }
+
+  // 4. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 5. CHECK POST STATUS (draft or published only)
+  if (post.status !== 'draft' && post.status !== 'published') {
+    return conflict('Only draft or published posts can be restored')
+  }
+
+  // 6. VERIFY OWNERSHIP (editors can only restore own posts)
+  if (!can(auth.user, 'post:revisions', post)) {
+    return forbidden('Editors can only restore their own posts')
+  }
+
+  // 7. FETCH REVISION (via persistence layer)
+  const { data: revision, error: revisionFetchError } = await getPostRevision(
+    postId,
+    revisionNumber
+  )
+
+  if (revisionFetchError || !revision) {
+    return notFound('Revision not found')
+  }
+
+  // 8. DROP CATEGORIES/TAGS THAT NO LONGER EXIST
+  const revisionCategoryIds: string[] = revision.category_ids || []
+  const revisionTagIds: string[] = revision.tag_ids || []
+
+  const [{ data: existingCategories, error: catError }, { data: existingTags, error: tagError }] =
+    await Promise.all([
+      supabase.from('categories').select('id').in('id', revisionCategoryIds),
+      supabase.from('tags').select('id').in('id', revisionTagIds),
+    ])
+
+  if (catError || tagError) {
+    console.error('Failed to verify revision relations:', catError || tagError)
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    )
+  }
+
+  const existingCategoryIds = new Set((existingCategories || []).map((c) => c.id))
+  const existingTagIds = new Set((existingTags || []).map((t) => t.id))
+  const categoryIds = revisionCategoryIds.filter((id) => existingCategoryIds.has(id))
+  const tagIds = revisionTagIds.filter((id) => existingTagIds.has(id))
+
+  // 9. PUBLISHED POSTS MUST STAY PUBLISHABLE
+  if (post.status === 'published') {
+    const contentValidation = validateContentForPublish(revision.content)
+    if (!contentValidation.valid) {
+      return badRequest(contentValidation.error || 'Revision content cannot be published')
+    }
+
+    if (categoryIds.length === 0) {
+      return badRequest('Published posts must have at least one category')
+    }
+  }
+
+  // 10. REGENERATE SLUG IF TITLE CHANGES
+  const updateData: PostUpdateData = {
+    title: revision.title,
+    content: revision.content,
+  }
+
+  if (revision.title !== post.title) {
+    const slugResult = await slugForTitleChange(post, revision.title)
+
+    if (slugResult.error === 'lookup_failed') {
+      return NextResponse.json(
+        { error: 'Failed to validate slug uniqueness' },
+        { status: 500 }
+      )
+    }
+
+    if (slugResult.error === 'exhausted') {
+      return conflict('Could not generate unique slug for this post')
+    }
+
+    updateData.slug = slugResult.slug
+  }
+
+  // 11. APPLY REVISION (via persistence layer)
+  const { data: updatedPost, error: updateError } = await updatePost(postId, updateData)
+
+  if (updateError || !updatedPost) {
+    console.error('Failed to restore revision:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    )
+  }
+
+  if (post.status === 'published' && updateData.slug !== undefined && updateData.slug !== post.slug) {
+    const { error: historyError } = await recordPreviousSlug(postId, post.slug)
+
+    if (historyError) {
+      console.error('Failed to record previous slug:', historyError)
+      // Continue anyway, post was restored successfully
+    }
+  }
+
+  const { error: categoryError } = await replacePostCategories(postId, categoryIds)
+  const { error: tagLinkError } = await replacePostTags(postId, tagIds)
+
+  if (categoryError || tagLinkError) {
+    console.error('Failed to restore relations:', categoryError || tagLinkError)
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    )
+  }
+
+  // 12. RECORD RESTORE REVISION
+  const { data: restoredRevision, error: revisionError } = await createPostRevision({
+    post_id: postId,
+    title: updatedPost.title,
+    content: updatedPost.content,
+    category_ids: categoryIds,
+    tag_ids: tagIds,
+    event: 'restored',
+    created_by: auth.user.id,
+  })
+
+  if (revisionError) {
+    console.error('Failed to record revision:', revisionError)
+    // Continue anyway, post was restored successfully
+  }
+
+  // 13. FORMAT AND RETURN SUCCESS RESPONSE (200 OK)
+  const formatted = formatPostResponse(updatedPost, false) as Record<string, unknown>
+  formatted.category_ids = categoryIds
+  formatted.tag_ids = tagIds
+  formatted.restored_from = revisionNumber
+  formatted.revision_number = restoredRevision?.revision_number ?? null
+
+  return NextResponse.json(formatted, { status: 200 })
+}
@@ -0,0 +1,88 @@
+// GET /api/posts/{id}/revisions/diff - Diff Two Post Revisions
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound, unprocessable } from '@/lib/auth'
+import { getPostById, getPostRevision } from '@/lib/posts/persistence'
+import { diffLines, diffIds } from '@/lib/posts/diff'
+
+/**
+ * Authentication: Required (editor for own posts, admin for any)
+ * Returns a line-level diff of title and content between two revisions,
+ * plus the category/tag ids added and removed.
+ *
+ * Query: from=<revision_number>&to=<revision_number>
+ *
+ * Spec: spec/api.md - GET /api/posts/{id}/revisions/diff
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:revisions')) {
+    return forbidden('Only editors and admins can view revisions')
+  }
+
+  // 3. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+  const from = parseInt(searchParams.get('from') || '', 10)
+  const to = parseInt(searchParams.get('to') || '', 10)
+
+  if (isNaN(from) || from < 1 || isNaN(to) || to < 1) {
+    return badRequest('from and to must be positive revision numbers')
+  }
+
+  // 4. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 5. VERIFY OWNERSHIP (editors can only view own posts' history)
+  if (!can(auth.user, 'post:revisions', post)) {
+    return forbidden('Editors can only view revisions of their own posts')
+  }
+
+  // 6. FETCH BOTH REVISIONS (via persistence layer)
+  const [{ data: fromRevision }, { data: toRevision }] = await Promise.all([
+    getPostRevision(postId, from),
+    getPostRevision(postId, to),
+  ])
+
+  if (!fromRevision || !toRevision) {
+    return notFound('Revision not found')
+  }
+
+  // 7. COMPUTE DIFF (refused when the changed region is too large to diff safely)
+  const title = diffLines(fromRevision.title, toRevision.title)
+  const content = diffLines(fromRevision.content, toRevision.content)
+
+  if (!title || !content) {
+    return unprocessable('Revisions differ too much to diff; compare them individually')
+  }
+
+  return NextResponse.json(
+    {
+      post_id: postId,
+      from,
+      to,
+      title,
+      content,
+      category_ids: diffIds(fromRevision.category_ids || [], toRevision.category_ids || []),
+      tag_ids: diffIds(fromRevision.tag_ids || [], toRevision.tag_ids || []),
+    },
+    { status: 200 }
+  )
+}
@@ -0,0 +1,90 @@
+// GET /api/posts/{id}/revisions - List Post Revisions
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, badRequest, notFound } from '@/lib/auth'
+import { getPostById, listPostRevisions } from '@/lib/posts/persistence'
+
+/**
+ * Authentication: Required (editor for own posts, admin for any)
+ * Returns the revision history of a post, newest first.
+ * Content is omitted from list items; use the diff endpoint to compare revisions.
+ *
+ * Spec: spec/api.md - GET /api/posts/{id}/revisions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:revisions')) {
+    return forbidden('Only editors and admins can view revisions')
+  }
+
+  // 3. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '20', 10)
+
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return badRequest('Limit must be between 1 and 100')
+  }
+
+  // 4. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 5. VERIFY OWNERSHIP (editors can only view own posts' history)
+  if (!can(auth.user, 'post:revisions', post)) {
+    return forbidden('Editors can only view revisions of their own posts')
+  }
+
+  // 6. FETCH REVISIONS (via persistence layer)
+  const offset = (page - 1) * limit
+  const { data: revisions, count, error: listError } = await listPostRevisions(
+    postId,
+    offset,
+    limit
+  )
+
+  if (listError) {
+    console.error('Failed to fetch revisions:', listError)
+    return NextResponse.json(
+      { error: 'Failed to fetch revisions' },
+      { status: 500 }
+    )
+  }
+
+  // 7. RETURN RESPONSE WITH PAGINATION
+  const total = count || 0
+
+  return NextResponse.json(
+    {
+      data: revisions || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    },
+    { status: 200 }
+  )
+}
@@ -1,36 +1,485 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { notFound } from '@/lib/auth'
-import { getPublishedPostById, formatPostResponse } from '@/lib/posts/persistence'
+import { requireAuth, optionalAuth, can, forbidden, badRequest, notFound, conflict } from '@/lib/auth'
+import {
+  validateTitle,
+  validateContent,
+  validateContentForPublish,
+  validateOptionalCategories,
+  validateTagIds,
+} from '@/lib/posts/validation'
+import {
+  getPostDetailById,
+  resolvePostIdBySlug,
+  getPostById,
+  updatePost,
+  replacePostCategories,
+  replacePostTags,
+  getPostCategoryIds,
+  getPostTagIds,
+  recordPreviousSlug,
+  createPostRevision,
+  softDeletePost,
+  getRestoreWindowDays,
+  formatPostResponse,
+  PostUpdateData,
+} from '@/lib/posts/persistence'
+import { slugForTitleChange } from '@/lib/posts/slug'
+import { recordModerationEvents } from '@/lib/audit/persistence'
+import { listCategoryHierarchy } from '@/lib/categories/persistence'
+import { getBreadcrumb } from '@/lib/categories/tree'
+import { validateTagNames } from '@/lib/tags/validation'
+import { resolveTagNames } from '@/lib/tags/resolve'
+import { supabase } from '@/lib/db/supabase'
+
+interface UpdatePostRequest {
+  title?: unknown
+  content?: unknown
+  category_ids?: unknown
+  tag_ids?: unknown
+  tag_names?: unknown
+}
 
 /**
  * GET /api/posts/{id} - Get Post Detail
  * Authentication: Optional (public)
- * Returns full details of a published post by id
- * 
+ * Returns full details of a published post by id (or slug, including slugs retired by
+ * a retitle), with a breadcrumb trail (root category first) for each of its categories.
+ * Drafts (and scheduled/archived posts) are returned only to their author or an admin;
+ * everyone else gets 404, so unpublished posts are not revealed.
+ *
  * Spec: spec/api.md - GET /api/posts/{id}
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
-  const { id: postId } = await params
+  const { id: idOrSlug } = await params
+
+  // 1. RESOLVE SLUG (anything that is not a UUID is treated as a current or retired slug)
+  let postId = idOrSlug
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (!uuidRegex.test(idOrSlug)) {
+    const { data: resolvedId, error: slugError } = await resolvePostIdBySlug(idOrSlug)
+
+    if (slugError) {
+      console.error('Failed to resolve post slug:', slugError)
+      return NextResponse.json(
+        { error: 'Failed to fetch post' },
+        { status: 500 }
+      )
+    }
+
+    if (!resolvedId) {
+      return notFound('Post not found')
+    }
+
+    postId = resolvedId
+  }
 
-  // 1. FETCH POST BY ID (via persistence layer)
-  const { data: post, error: fetchError } = await getPublishedPostById(postId)
+  // 2. FETCH POST BY ID (via persistence layer, any status)
+  const { data: post, error: fetchError } = await getPostDetailById(postId)
 
   if (fetchError || !post) {
     return notFound('Post not found')
   }
 
-  // 2. CHECK POST STATUS (already filtered by persistence layer)
+  // 3. CHECK VISIBILITY (non-published posts: author or admin only)
+  // A missing or invalid token is treated like an anonymous reader.
   if (post.status !== 'published') {
-    return notFound('Post not found')
+    const auth = await optionalAuth(request)
+    const canView = can(auth.user, 'post:read-unpublished', post)
+
+    if (!canView) {
+      return notFound('Post not found')
+    }
   }
 
-  // 3. TRANSFORM RESPONSE
+  // 4. LOAD CATEGORY HIERARCHY (for breadcrumbs)
+  const { data: hierarchy, error: hierarchyError } = await listCategoryHierarchy()
+
+  if (hierarchyError) {
+    console.error('Failed to load category hierarchy:', hierarchyError)
+    return NextResponse.json(
+      { error: 'Failed to fetch post' },
+      { status: 500 }
+    )
+  }
+
+  // 5. TRANSFORM RESPONSE
   const formatted = formatPostResponse(post) as Record<string, unknown>
-  formatted.comment_count = 0 // TODO: Fetch comment count
+  formatted.comment_count = post.comment_count ?? 0
+  formatted.breadcrumbs = ((post.post_categories || []) as Array<{ category_id: string }>).map(
+    (link) => getBreadcrumb(hierarchy || [], link.category_id)
+  )
+
+  // 6. RETURN SUCCESS RESPONSE (200 OK)
+  return NextResponse.json(formatted, { status: 200 })
+}
+
+/**
+ * PATCH /api/posts/{id} - Update Post
+ * Authentication: Required (editor for own posts, admin for any)
+ * Updates title, content, category_ids and/or tags (tag_ids / tag_names) of a draft or published post.
+ * Retitling a published post regenerates its slug; the previous slug keeps resolving.
+ *
+ * Spec: spec/api.md - PATCH /api/posts/{id}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:update')) {
+    return forbidden('Only editors and admins can edit posts')
+  }
+
+  // 3. PARSE REQUEST BODY
+  let body: UpdatePostRequest
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Invalid JSON in request body')
+  }
+
+  if (
+    body.title === undefined &&
+    body.content === undefined &&
+    body.category_ids === undefined &&
+    body.tag_ids === undefined &&
+    body.tag_names === undefined
+  ) {
+    return badRequest('At least one of title, content, category_ids, tag_ids or tag_names is required')
+  }
+
+  // 4. VALIDATE PROVIDED FIELDS (same rules as POST /api/posts)
+  if (body.title !== undefined) {
+    const titleValidation = validateTitle(body.title)
+    if (!titleValidation.valid) {
+      return badRequest(titleValidation.error || 'Invalid title')
+    }
+  }
+
+  if (body.content !== undefined) {
+    const contentValidation = validateContent(body.content)
+    if (!contentValidation.valid) {
+      return badRequest(contentValidation.error || 'Invalid content')
+    }
+  }
+
+  if (body.category_ids !== undefined) {
+    const categoriesValidation = validateOptionalCategories(body.category_ids)
+    if (!categoriesValidation.valid) {
+      return badRequest(categoriesValidation.error || 'Invalid category_ids')
+    }
+  }
+
+  if (body.tag_ids !== undefined) {
+    const tagsValidation = validateTagIds(body.tag_ids)
+    if (!tagsValidation.valid) {
+      return badRequest(tagsValidation.error || 'Invalid tag_ids')
+    }
+  }
+
+  const tagNamesValidation = validateTagNames(body.tag_names)
+  if (!tagNamesValidation.valid) {
+    return badRequest(tagNamesValidation.error || 'Invalid tag_names')
+  }
+
+  // 5. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 6. CHECK POST STATUS (draft or published only)
+  if (post.status !== 'draft' && post.status !== 'published') {
+    return conflict('Only draft or published posts can be edited')
+  }
+
+  // 7. VERIFY OWNERSHIP (editors can only edit own posts)
+  if (!can(auth.user, 'post:update', post)) {
+    return forbidden('Editors can only edit their own posts')
+  }
+
+  const isPublished = post.status === 'published'
+
+  // 8. PUBLISHED POSTS MUST STAY PUBLISHABLE
+  if (isPublished && body.content !== undefined) {
+    const publishValidation = validateContentForPublish(body.content)
+    if (!publishValidation.valid) {
+      return badRequest(publishValidation.error || 'Invalid content for published post')
+    }
+  }
+
+  // 9. VALIDATE CATEGORY IDS EXIST (if provided)
+  // Inactive categories may stay linked, but cannot be newly added
+  let categoryIds: string[] | undefined
+  if (body.category_ids !== undefined) {
+    categoryIds = Array.isArray(body.category_ids) ? (body.category_ids as string[]) : []
+
+    if (isPublished && categoryIds.length === 0) {
+      return badRequest('Published posts must have at least one category')
+    }
+
+    if (categoryIds.length > 0) {
+      const { data: existingCategories, error: catError } = await supabase
+        .from('categories')
+        .select('id, is_active')
+        .in('id', categoryIds)
+
+      if (catError || !existingCategories || existingCategories.length !== categoryIds.length) {
+        return badRequest('One or more category_ids reference non-existent categories')
+      }
+
+      const inactiveIds = existingCategories
+        .filter((category) => !category.is_active)
+        .map((category) => category.id as string)
+
+      if (inactiveIds.length > 0) {
+        const { data: linkedCategories, error: linkedError } = await getPostCategoryIds(postId)
+
+        if (linkedError) {
+          console.error('Failed to fetch post categories:', linkedError)
+          return NextResponse.json(
+            { error: 'Failed to update post' },
+            { status: 500 }
+          )
+        }
+
+        const linkedIds = new Set((linkedCategories || []).map((link) => link.category_id))
+        if (inactiveIds.some((id) => !linkedIds.has(id))) {
+          return badRequest('One or more category_ids reference inactive categories')
+        }
+      }
+    }
+  }
+
+  // 10. VALIDATE TAG IDS EXIST (if provided)
+  // tag_ids and tag_names together form the new tag set when either is given.
+  let tagIds: string[] | undefined
+  if (body.tag_ids !== undefined || body.tag_names !== undefined) {
+    tagIds = Array.isArray(body.tag_ids) ? (body.tag_ids as string[]) : []
+
+    if (tagIds.length > 0) {
+      const { data: existingTags, error: tagError } = await supabase
+        .from('tags')
+        .select('id')
+        .in('id', tagIds)
+
+      if (tagError || !existingTags || existingTags.length !== tagIds.length) {
+        return badRequest('One or more tag_ids reference non-existent tags')
+      }
+    }
+
+    // 10b. RESOLVE TAG NAMES (missing tags are created)
+    if (Array.isArray(body.tag_names) && body.tag_names.length > 0) {
+      const resolved = await resolveTagNames(body.tag_names as string[])
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error.message },
+          { status: resolved.error.status }
+        )
+      }
+      tagIds = [...new Set([...tagIds, ...resolved.tagIds])]
+    }
+  }
+
+  // 11. REGENERATE SLUG IF TITLE CHANGED
+  // Drafts: plain slugify (uniqueness is enforced at publish, same as create).
+  // Published: same uniqueness loop as the publish route; old slug is kept in history.
+  const updateData: PostUpdateData = {}
+  if (body.title !== undefined) {
+    updateData.title = body.title as string
+  }
+  if (body.content !== undefined) {
+    updateData.content = body.content as string
+  }
+
+  if (updateData.title !== undefined && updateData.title !== post.title) {
+    const slugResult = await slugForTitleChange(post, updateData.title)
+
+    if (slugResult.error === 'lookup_failed') {
+      return NextResponse.json(
+        { error: 'Failed to validate slug uniqueness' },
+        { status: 500 }
+      )
+    }
+
+    if (slugResult.error === 'exhausted') {
+      return conflict('Could not generate unique slug for this post')
+    }
+
+    updateData.slug = slugResult.slug
+  }
+
+  // 12. UPDATE POST (via persistence layer)
+  const { data: updatedPost, error: updateError } = await updatePost(postId, updateData)
+
+  if (updateError || !updatedPost) {
+    console.error('Failed to update post:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to update post' },
+      { status: 500 }
+    )
+  }
+
+  // 13. KEEP OLD SLUG RESOLVING (published posts only)
+  if (isPublished && updateData.slug !== undefined && updateData.slug !== post.slug) {
+    const { error: historyError } = await recordPreviousSlug(postId, post.slug)
+
+    if (historyError) {
+      console.error('Failed to record previous slug:', historyError)
+      // Continue anyway, post was updated successfully
+    }
+  }
+
+  // 14. REPLACE CATEGORY / TAG RELATIONSHIPS (if provided)
+  if (categoryIds !== undefined) {
+    const { error: categoryError } = await replacePostCategories(postId, categoryIds)
+
+    if (categoryError) {
+      console.error('Failed to replace categories:', categoryError)
+      return NextResponse.json(
+        { error: 'Failed to update post categories' },
+        { status: 500 }
+      )
+    }
+  }
+
+  if (tagIds !== undefined) {
+    const { error: tagError } = await replacePostTags(postId, tagIds)
+
+    if (tagError) {
+      console.error('Failed to replace tags:', tagError)
+      return NextResponse.json(
+        { error: 'Failed to update post tags' },
+        { status: 500 }
+      )
+    }
+  }
+
+  // 15. FORMAT AND RETURN SUCCESS RESPONSE (200 OK)
+  const formatted = formatPostResponse(updatedPost, false) as Record<string, unknown>
+
+  const [{ data: categoryRecords }, { data: tagRecords }] = await Promise.all([
+    getPostCategoryIds(postId),
+    getPostTagIds(postId),
+  ])
+
+  formatted.category_ids = categoryRecords?.map((c) => c.category_id) || []
+  formatted.tag_ids = tagRecords?.map((t) => t.tag_id) || []
+
+  // 16. RECORD EDIT REVISION
+  const { error: revisionError } = await createPostRevision({
+    post_id: postId,
+    title: updatedPost.title,
+    content: updatedPost.content,
+    category_ids: formatted.category_ids as string[],
+    tag_ids: formatted.tag_ids as string[],
+    event: 'edited',
+    created_by: auth.user.id,
+  })
+
+  if (revisionError) {
+    console.error('Failed to record revision:', revisionError)
+    // Continue anyway, post was updated successfully
+  }
 
-  // 4. RETURN SUCCESS RESPONSE (200 OK)
   return NextResponse.json(formatted, { status: 200 })
 }
+
+/**
+ * DELETE /api/posts/{id} - Delete Post (soft delete)
+ * Authentication: Required (editor for own posts, admin for any)
+ * Marks the post deleted; it disappears from every listing and releases its slug.
+ * It can be restored via POST /api/posts/{id}/restore within the restore window.
+ *
+ * Spec: spec/api.md - DELETE /api/posts/{id}
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:delete')) {
+    return forbidden('Only editors and admins can delete posts')
+  }
+
+  // 3. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 4. VERIFY OWNERSHIP (editors can only delete own posts)
+  if (!can(auth.user, 'post:delete', post)) {
+    return forbidden('Editors can only delete their own posts')
+  }
+
+  // 5. SOFT DELETE POST (via persistence layer)
+  const { data: deletedPost, error: deleteError } = await softDeletePost(postId)
+
+  if (deleteError || !deletedPost) {
+    console.error('Failed to delete post:', deleteError)
+    return NextResponse.json(
+      { error: 'Failed to delete post' },
+      { status: 500 }
+    )
+  }
+
+  // 6. RECORD AUDIT EVENT (deletion is not a status; new_state is 'deleted')
+  const { error: auditError } = await recordModerationEvents([
+    {
+      actor_id: auth.user.id,
+      target_type: 'post',
+      target_id: postId,
+      action: 'delete',
+      previous_state: post.status,
+      new_state: 'deleted',
+    },
+  ])
+
+  if (auditError) {
+    console.error('Failed to record moderation event:', auditError)
+    // Continue anyway, post was deleted successfully
+  }
+
+  // 7. RETURN SUCCESS RESPONSE (200 OK) with restore deadline
+  const restoreUntil = new Date(
+    Date.parse(deletedPost.deleted_at) + getRestoreWindowDays() * 24 * 60 * 60 * 1000
+  )
+
+  return NextResponse.json(
+    {
+      id: deletedPost.id,
+      status: deletedPost.status,
+      deleted_at: deletedPost.deleted_at,
+      restore_until: restoreUntil.toISOString(),
+    },
+    { status: 200 }
+  )
+}
@@ -0,0 +1,132 @@
+// PATCH /api/posts/{id}/unarchive - Unarchive Post
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth, can, forbidden, notFound, conflict } from '@/lib/auth'
+import {
+  getPostById,
+  unarchivePost,
+  recordPreviousSlug,
+  formatPostResponse,
+} from '@/lib/posts/persistence'
+import { checkPublishableContent } from '@/lib/posts/publishing'
+import { slugForRepublish } from '@/lib/posts/slug'
+import { recordModerationEvents } from '@/lib/audit/persistence'
+
+/**
+ * Authentication: Required (editor for own posts, admin for any)
+ * Returns an archived post to published. Content and category checks are re-run
+ * because categories may have changed. The post keeps its slug unless another post
+ * took it while archived; then it gets a fresh one and the old slug goes to
+ * post_slug_history. The original published_at is kept.
+ *
+ * Spec: spec/api.md - PATCH /api/posts/{id}/unarchive
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: postId } = await params
+
+  // 1. AUTHENTICATE & AUTHORIZE
+  const auth = await requireAuth(request)
+  if (auth.error) {
+    return NextResponse.json(
+      { error: auth.error.message },
+      { status: auth.error.status }
+    )
+  }
+
+  // 2. VERIFY ROLE (editor, admin)
+  if (!can(auth.user, 'post:archive')) {
+    return forbidden('Only editors and admins can unarchive posts')
+  }
+
+  // 3. FETCH POST (via persistence layer)
+  const { data: post, error: fetchError } = await getPostById(postId)
+
+  if (fetchError || !post) {
+    return notFound('Post not found')
+  }
+
+  // 4. CHECK POST STATUS (must be archived)
+  if (post.status !== 'archived') {
+    return conflict('Post is not archived')
+  }
+
+  // 5. VERIFY OWNERSHIP (editors can only unarchive own posts)
+  if (!can(auth.user, 'post:archive', post)) {
+    return forbidden('Editors can only unarchive their own posts')
+  }
+
+  // 6. RUN PUBLISH CHECKS (content, categories)
+  const check = await checkPublishableContent(post)
+
+  if (check.error) {
+    return NextResponse.json(
+      { error: check.error.message },
+      { status: check.error.status }
+    )
+  }
+
+  // 7. RESOLVE SLUG (keep the post's own slug unless it was taken while archived)
+  const slugResult = await slugForRepublish(post)
+
+  if (slugResult.error === 'lookup_failed') {
+    return NextResponse.json(
+      { error: 'Failed to validate slug uniqueness' },
+      { status: 500 }
+    )
+  }
+
+  if (slugResult.error === 'exhausted') {
+    return conflict('Could not generate unique slug for this post')
+  }
+
+  // 8. UNARCHIVE POST (via persistence layer)
+  const { data: updatedPost, error: updateError } = await unarchivePost(postId, slugResult.slug)
+
+  if (updateError?.code === 'PGRST116') {
+    return conflict('Post is not archived')
+  }
+
+  if (updateError || !updatedPost) {
+    console.error('Failed to unarchive post:', updateError)
+    return NextResponse.json(
+      { error: 'Failed to unarchive post' },
+      { status: 500 }
+    )
+  }
+
+  // 9. KEEP OLD SLUG RESOLVING (only if it had to change)
+  if (post.slug && slugResult.slug !== post.slug) {
+    const { error: historyError } = await recordPreviousSlug(postId, post.slug)
+
+    if (historyError) {
+      console.error('Failed to record previous slug:', historyError)
+      // Continue anyway, post was unarchived successfully
+    }
+  }
+
+  // 10. RECORD AUDIT EVENT
+  const { error: auditError } = await recordModerationEvents([
+    {
+      actor_id: auth.user.id,
+      target_type: 'post',
+      target_id: postId,
+      action: 'unarchive',
+      previous_state: post.status,
+      new_state: updatedPost.status,
+    },
+  ])
+
+  if (auditError) {
+    console.error('Failed to record moderation event:', auditError)
+    // Continue anyway, post was unarchived successfully
+  }
+
+  // 11. RETURN SUCCESS RESPONSE (200 OK)
+  const formatted = formatPostResponse(updatedPost, false) as Record<string, unknown>
+  formatted.category_ids = check.categoryIds
+
+  return NextResponse.json(formatted, { status: 200 })
+}
@@ -2,7 +2,7 @@
 // POST /api/posts - Create Post (Draft)
 
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth, hasRole, forbidden, badRequest } from '@/lib/auth'
+import { requireAuth, can, forbidden, badRequest } from '@/lib/auth'
 import {
   validateTitle,
   validateContent,
@@ -14,10 +14,17 @@ import {
   createDraftPost,
   linkCategoriesToPost,
   linkTagsToPost,
+  createPostRevision,
   listPublishedPosts,
   countPublishedPosts,
   formatPostResponse,
+  PublishedPostSort,
 } from '@/lib/posts/persistence'
+import { listCategoryHierarchy } from '@/lib/categories/persistence'
+import { getDescendantIds } from '@/lib/categories/tree'
+import { encodeCursor, decodeCursor } from '@/lib/pagination/cursor'
+import { validateTagNames } from '@/lib/tags/validation'
+import { resolveTagNames } from '@/lib/tags/resolve'
 import { supabase } from '@/lib/db/supabase'
 
 interface CreatePostRequest {
@@ -25,6 +32,7 @@ interface CreatePostRequest {
   content: unknown
   category_ids: unknown
   tag_ids?: unknown
+  tag_names?: unknown
 }
 
 /**
@@ -44,7 +52,7 @@ export async function POST(request: NextRequest) {
   }
 
   // 2. VERIFY ROLE (editor, admin)
-  if (!hasRole(auth.user, ['editor', 'admin'])) {
+  if (!can(auth.user, 'post:create')) {
     return forbidden('Only editors and admins can create posts')
   }
 
@@ -76,7 +84,7 @@ export async function POST(request: NextRequest) {
     )
   }
 
-  // 6b. VALIDATE CATEGORY IDS EXIST (if provided)
+  // 6b. VALIDATE CATEGORY IDS EXIST AND ARE ACTIVE (if provided)
   let categoryIds: string[] = []
   if (
     body.category_ids &&
@@ -86,12 +94,17 @@ export async function POST(request: NextRequest) {
     categoryIds = body.category_ids as string[]
     const { data: existingCategories, error: catError } = await supabase
       .from('categories')
-      .select('id')
+      .select('id, is_active')
       .in('id', categoryIds)
 
     if (catError || !existingCategories || existingCategories.length !== categoryIds.length) {
       return badRequest('One or more category_ids reference non-existent categories')
     }
+
+    // Deactivated categories are hidden from GET /api/categories; no new posts in them
+    if (existingCategories.some((category) => !category.is_active)) {
+      return badRequest('One or more category_ids reference inactive categories')
+    }
   }
 
   // 7. VALIDATE TAGS (optional)
@@ -118,6 +131,23 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  // 7c. RESOLVE TAG NAMES (optional; missing tags are created)
+  const tagNamesValidation = validateTagNames(body.tag_names)
+  if (!tagNamesValidation.valid) {
+    return badRequest(tagNamesValidation.error || 'Invalid tag_names')
+  }
+
+  if (Array.isArray(body.tag_names) && body.tag_names.length > 0) {
+    const resolved = await resolveTagNames(body.tag_names as string[])
+    if (resolved.error) {
+      return NextResponse.json(
+        { error: resolved.error.message },
+        { status: resolved.error.status }
+      )
+    }
+    tagIds = [...new Set([...tagIds, ...resolved.tagIds])]
+  }
+
   // 8. GENERATE SLUG
   // Note: Slug is generated from title but NOT checked for uniqueness at draft stage.
   // Slug uniqueness is enforced when publishing (C3.2).
@@ -161,7 +191,23 @@ export async function POST(request: NextRequest) {
     }
   }
 
-  // 12. RETURN SUCCESS RESPONSE (201 Created)
+  // 12. RECORD INITIAL REVISION
+  const { error: revisionError } = await createPostRevision({
+    post_id: post.id,
+    title: post.title,
+    content: post.content,
+    category_ids: categoryIds,
+    tag_ids: tagIds,
+    event: 'created',
+    created_by: auth.user.id,
+  })
+
+  if (revisionError) {
+    console.error('Failed to record revision:', revisionError)
+    // Continue anyway, post was created successfully
+  }
+
+  // 13. RETURN SUCCESS RESPONSE (201 Created)
   const formatted = formatPostResponse(post, false) as Record<string, unknown>
   formatted.category_ids = categoryIds
   formatted.tag_ids = tagIds
@@ -183,9 +229,11 @@ export async function GET(request: NextRequest) {
   const page = parseInt(searchParams.get('page') || '1', 10)
   const limit = parseInt(searchParams.get('limit') || '10', 10)
   const categorySlug = searchParams.get('category')
+  const includeDescendants = searchParams.get('include_descendants') === 'true'
   const tagName = searchParams.get('tag')
   const searchQuery = searchParams.get('search')
   const sort = searchParams.get('sort') || 'newest'
+  const cursorParam = searchParams.get('cursor')
 
   // 2. VALIDATE QUERY PARAMETERS
   if (isNaN(page) || page < 1) {
@@ -196,55 +244,75 @@ export async function GET(request: NextRequest) {
     return badRequest('Limit must be between 1 and 50')
   }
 
-  if (sort !== 'newest' && sort !== 'oldest') {
-    return badRequest('Sort must be "newest" or "oldest"')
+  if (sort !== 'newest' && sort !== 'oldest' && sort !== 'most_commented') {
+    return badRequest('Sort must be "newest", "oldest" or "most_commented"')
   }
 
-  // 3. FETCH PUBLISHED POSTS FROM PERSISTENCE LAYER
-  const sortOrder: 'asc' | 'desc' = sort === 'oldest' ? 'asc' : 'desc'
-  const offset = (page - 1) * limit
+  if (cursorParam !== null && searchParams.has('page')) {
+    return badRequest('Use either page or cursor, not both')
+  }
 
-  const { data: posts, error: queryError } = await listPublishedPosts(
-    offset,
-    limit,
-    sortOrder
-  )
+  if (cursorParam !== null && sort === 'most_commented') {
+    return badRequest('Cursor pagination is not supported with sort "most_commented"')
+  }
 
-  if (queryError) {
-    console.error('Failed to fetch posts:', queryError)
-    return NextResponse.json(
-      { error: 'Failed to fetch posts' },
-      { status: 500 }
-    )
+  const sortOrder: 'asc' | 'desc' = sort === 'oldest' ? 'asc' : 'desc'
+  const cursor = cursorParam !== null ? decodeCursor(cursorParam, 'posts', sortOrder) : null
+
+  if (cursorParam !== null && !cursor) {
+    return badRequest('Invalid cursor')
   }
 
-  // 4. FILTER BY CATEGORY (client-side after fetch, as Supabase filter is complex)
-  let filteredPosts = posts || []
-  
-  if (categorySlug) {
-    filteredPosts = filteredPosts.filter((post: any) =>
-      post.post_categories?.some((pc: any) => pc.categories?.slug === categorySlug)
-    )
+  // 3. RESOLVE CATEGORY SUBTREE (include_descendants=true)
+  // The category slug expands to the category plus all its descendants.
+  // An unknown slug falls through to the plain slug filter (empty result).
+  let categoryIds: string[] | null = null
+  if (categorySlug && includeDescendants) {
+    const { data: hierarchy, error: hierarchyError } = await listCategoryHierarchy()
+
+    if (hierarchyError || !hierarchy) {
+      console.error('Failed to load category hierarchy:', hierarchyError)
+      return NextResponse.json(
+        { error: 'Failed to fetch posts' },
+        { status: 500 }
+      )
+    }
+
+    const category = hierarchy.find((node) => node.slug === categorySlug)
+    if (category) {
+      categoryIds = getDescendantIds(hierarchy, category.id)
+    }
   }
 
-  // 5. FILTER BY TAG (client-side after fetch)
-  if (tagName) {
-    filteredPosts = filteredPosts.filter((post: any) =>
-      post.post_tags?.some((pt: any) => pt.tags?.slug?.toLowerCase() === tagName.toLowerCase())
-    )
+  // 4. FETCH PUBLISHED POSTS FROM PERSISTENCE LAYER
+  // Category, tag and search filters are applied in the database, so each page
+  // holds up to `limit` matching posts and the count covers the same filter.
+  // One extra row is fetched to tell whether a next page (next_cursor) exists.
+  const offset = cursor ? 0 : (page - 1) * limit
+  const filters = {
+    categorySlug,
+    categoryIds,
+    tagSlug: tagName,
+    search: searchQuery,
   }
 
-  // 6. APPLY SEARCH FILTER (client-side after fetch)
-  if (searchQuery) {
-    filteredPosts = filteredPosts.filter((post: any) =>
-      post.title?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      post.content?.toLowerCase().includes(searchQuery.toLowerCase())
+  const [
+    { data: posts, error: queryError },
+    { count, error: countError },
+  ] = await Promise.all([
+    listPublishedPosts(offset, limit + 1, sort as PublishedPostSort, filters, cursor),
+    countPublishedPosts(filters),
+  ])
+
+  if (queryError) {
+    console.error('Failed to fetch posts:', queryError)
+    return NextResponse.json(
+      { error: 'Failed to fetch posts' },
+      { status: 500 }
     )
   }
 
-  // 7. GET TOTAL COUNT FOR PAGINATION
-  const { count, error: countError } = await countPublishedPosts()
-
+  // 5. CHECK TOTAL COUNT FOR PAGINATION
   if (countError) {
     console.error('Failed to count posts:', countError)
     return NextResponse.json(
@@ -253,8 +321,15 @@ export async function GET(request: NextRequest) {
     )
   }
 
-  // 8. TRANSFORM RESPONSE
-  const transformedPosts = filteredPosts.map((post: any) => ({
+  // 6. TRANSFORM RESPONSE
+  const hasMore = (posts || []).length > limit
+  const pagePosts = (posts || []).slice(0, limit)
+  const lastPost = pagePosts[pagePosts.length - 1] as unknown as { id: string; published_at: string } | undefined
+  const nextCursor = hasMore && lastPost && sort !== 'most_commented'
+    ? encodeCursor('posts', sortOrder, { value: lastPost.published_at, id: lastPost.id })
+    : null
+
+  const transformedPosts = pagePosts.map((post: any) => ({
     id: post.id,
     title: post.title,
     slug: post.slug,
@@ -264,22 +339,23 @@ export async function GET(request: NextRequest) {
     },
     status: post.status,
     published_at: post.published_at,
-    comment_count: 0, // TODO: Fetch comment count when C3.5/C3.6 ready
+    comment_count: post.comment_count ?? 0,
     category_ids: post.post_categories?.map((pc: any) => pc.category_id) || [],
     tag_ids: post.post_tags?.map((pt: any) => pt.tag_id) || [],
   }))
 
-  // 9. RETURN RESPONSE WITH PAGINATION
+  // 7. RETURN RESPONSE WITH PAGINATION
   const totalPages = Math.ceil((count || 0) / limit)
 
   return NextResponse.json(
     {
       data: transformedPosts,
       pagination: {
-        page,
+        page: cursor ? null : page,
         limit,
         total: count || 0,
         total_pages: totalPages,
+        next_cursor: nextCursor,
       },
     },
     { status: 200 }
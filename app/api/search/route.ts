@@ -0,0 +1,106 @@
+// GET /api/search - Full-Text Search Over Published Posts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { badRequest } from '@/lib/auth'
+import { buildTsQuery, MAX_SEARCH_QUERY_LENGTH } from '@/lib/search/query'
+import {
+  searchPublishedPosts,
+  countSearchResults,
+  SearchSort,
+  SearchResultRow,
+} from '@/lib/search/persistence'
+
+/**
+ * Public endpoint (no authentication required)
+ * Ranks published posts by relevance (title weighted above content) and returns
+ * highlighted snippets. Bare words prefix-match; "quoted phrases" match in order.
+ *
+ * Spec: spec/api.md - GET /api/search
+ */
+export async function GET(request: NextRequest) {
+  // 1. PARSE QUERY PARAMETERS
+  const { searchParams } = new URL(request.url)
+
+  const q = (searchParams.get('q') || '').trim()
+  const page = parseInt(searchParams.get('page') || '1', 10)
+  const limit = parseInt(searchParams.get('limit') || '10', 10)
+  const sort = searchParams.get('sort') || 'relevance'
+
+  // 2. VALIDATE QUERY PARAMETERS
+  if (!q) {
+    return badRequest('Search query (q) is required')
+  }
+
+  if (q.length > MAX_SEARCH_QUERY_LENGTH) {
+    return badRequest(`Search query must be at most ${MAX_SEARCH_QUERY_LENGTH} characters`)
+  }
+
+  if (isNaN(page) || page < 1) {
+    return badRequest('Page must be a positive integer')
+  }
+
+  if (isNaN(limit) || limit < 1 || limit > 50) {
+    return badRequest('Limit must be between 1 and 50')
+  }
+
+  if (sort !== 'relevance' && sort !== 'newest') {
+    return badRequest('Sort must be "relevance" or "newest"')
+  }
+
+  const tsQuery = buildTsQuery(q)
+  if (!tsQuery) {
+    return badRequest('Search query must contain at least one word')
+  }
+
+  // 3. RUN SEARCH (via persistence layer)
+  const offset = (page - 1) * limit
+
+  const [
+    { data: results, error: searchError },
+    { data: total, error: countError },
+  ] = await Promise.all([
+    searchPublishedPosts(tsQuery, sort as SearchSort, offset, limit),
+    countSearchResults(tsQuery),
+  ])
+
+  if (searchError || countError) {
+    console.error('Search failed:', searchError || countError)
+    return NextResponse.json(
+      { error: 'Failed to search posts' },
+      { status: 500 }
+    )
+  }
+
+  // 4. TRANSFORM RESPONSE
+  const data = ((results || []) as SearchResultRow[]).map((row) => ({
+    id: row.id,
+    title: row.title,
+    slug: row.slug,
+    author: {
+      id: row.author_id,
+      email: row.author_email,
+    },
+    published_at: row.published_at,
+    rank: row.rank,
+    highlights: {
+      title: row.title_highlight,
+      snippet: row.snippet,
+    },
+  }))
+
+  // 5. RETURN RESPONSE WITH PAGINATION
+  const totalCount = Number(total) || 0
+
+  return NextResponse.json(
+    {
+      data,
+      pagination: {
+        page,
+        limit,
+        total: totalCount,
+        total_pages: Math.ceil(totalCount / limit),
+      },
+    },
+    { status: 200 }
+  )
+}
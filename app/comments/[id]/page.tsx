@@ -0,0 +1,35 @@
+import { notFound } from 'next/navigation'
+import CommentThread, { ThreadReply } from '../../posts/[id]/comment-thread'
+
+// Continue Thread – shows one comment and its deeper replies
+
+export default async function CommentThreadPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+
+  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+  const response = await fetch(`${baseUrl}/api/comments/${id}/thread`, {
+    cache: 'no-store',
+  })
+
+  if (!response.ok) {
+    notFound()
+  }
+
+  const comment: ThreadReply & { post_id: string } = await response.json()
+
+  return (
+    <main style={{ padding: '2rem', fontFamily: 'sans-serif', maxWidth: '800px', margin: '0 auto' }}>
+      <a href={`/posts/${comment.post_id}`} style={{ display: 'inline-block', marginBottom: '1.5rem', color: '#0066cc', textDecoration: 'none' }}>
+        ← Back to Post
+      </a>
+
+      <h2 style={{ fontSize: '1.5rem', marginBottom: '1.5rem' }}>Thread</h2>
+
+      <CommentThread postId={comment.post_id} comment={comment} />
+    </main>
+  )
+}
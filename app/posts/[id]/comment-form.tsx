@@ -4,9 +4,12 @@ import { useState } from 'react'
 
 interface CommentFormProps {
   postId: string
+  // When set, the form posts a reply to this comment and starts collapsed
+  parentCommentId?: string
 }
 
-export default function CommentForm({ postId }: CommentFormProps) {
+export default function CommentForm({ postId, parentCommentId }: CommentFormProps) {
+  const [open, setOpen] = useState(!parentCommentId)
   const [content, setContent] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
@@ -39,7 +42,9 @@ export default function CommentForm({ postId }: CommentFormProps) {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ content }),
+        body: JSON.stringify(
+          parentCommentId ? { content, parent_comment_id: parentCommentId } : { content }
+        ),
       })
 
       if (!res.ok) {
@@ -56,20 +61,43 @@ export default function CommentForm({ postId }: CommentFormProps) {
     }
   }
 
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        style={{
+          padding: 0,
+          background: 'none',
+          border: 'none',
+          color: '#0066cc',
+          fontSize: '0.8rem',
+          cursor: 'pointer',
+        }}
+      >
+        Reply
+      </button>
+    )
+  }
+
   return (
-    <form onSubmit={handleSubmit}>
+    <form onSubmit={handleSubmit} style={parentCommentId ? { marginTop: '0.5rem' } : undefined}>
       <div style={{ marginBottom: '1rem' }}>
         <textarea
           value={content}
           onChange={(e) => setContent(e.target.value)}
-          rows={4}
+          rows={parentCommentId ? 2 : 4}
           style={{ width: '100%', padding: '0.5rem' }}
-          placeholder="Write your comment..."
+          placeholder={parentCommentId ? 'Write your reply...' : 'Write your comment...'}
         />
       </div>
 
       {error && <p style={{ color: 'red' }}>{error}</p>}
-      {success && <p style={{ color: 'green' }}>Comment submitted for moderation.</p>}
+      {success && (
+        <p style={{ color: 'green' }}>
+          {parentCommentId ? 'Reply' : 'Comment'} submitted for moderation.
+        </p>
+      )}
 
       <button
         type="submit"
@@ -83,8 +111,24 @@ export default function CommentForm({ postId }: CommentFormProps) {
             cursor: loading ? 'not-allowed' : 'pointer',
         }}
         >
-        {loading ? 'Submitting...' : 'Submit Comment'}
+        {loading ? 'Submitting...' : parentCommentId ? 'Submit Reply' : 'Submit Comment'}
     </button>
+    {parentCommentId && (
+      <button
+        type="button"
+        onClick={() => setOpen(false)}
+        style={{
+          marginLeft: '0.5rem',
+          padding: '0.6rem 1.2rem',
+          background: 'none',
+          border: '1px solid #ccc',
+          borderRadius: '4px',
+          cursor: 'pointer',
+        }}
+      >
+        Cancel
+      </button>
+    )}
 
     </form>
   )
@@ -0,0 +1,92 @@
+// Renders a comment and its nested replies
+// Shared by the post comment list and the "continue thread" page
+
+import CommentForm from './comment-form'
+
+export interface ThreadReply {
+  id: string
+  author: {
+    id: string
+    email: string
+  }
+  content: string
+  created_at: string
+  edited_at?: string | null
+  deleted?: boolean
+  replies?: ThreadReply[]
+  has_more_replies?: boolean
+}
+
+interface CommentThreadProps {
+  postId: string
+  comment: ThreadReply
+  depth?: number
+}
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export default function CommentThread({ postId, comment, depth = 0 }: CommentThreadProps) {
+  const isReply = depth > 0
+  const replies = comment.replies || []
+
+  return (
+    <div
+      style={
+        isReply
+          ? { marginBottom: '1rem', fontSize: '0.95rem' }
+          : { marginBottom: '2rem', paddingBottom: '1.5rem', borderBottom: '1px solid #f0f0f0' }
+      }
+    >
+      <div style={{ color: '#666', fontSize: isReply ? '0.8rem' : '0.85rem', marginBottom: isReply ? '0.25rem' : '0.5rem' }}>
+        <strong>{comment.deleted ? '[deleted]' : comment.author.email}</strong> on {formatDate(comment.created_at)}
+        {comment.edited_at && !comment.deleted && <span> (edited)</span>}
+      </div>
+
+      <div
+        style={{
+          fontSize: isReply ? undefined : '1rem',
+          lineHeight: isReply ? undefined : '1.5',
+          whiteSpace: 'pre-wrap',
+          wordWrap: 'break-word',
+          marginBottom: '0.25rem',
+        }}
+      >
+        {comment.content}
+      </div>
+
+      {!comment.deleted && <CommentForm postId={postId} parentCommentId={comment.id} />}
+
+      {(replies.length > 0 || comment.has_more_replies) && (
+        <div
+          style={{
+            marginTop: '1rem',
+            marginLeft: '1.5rem',
+            paddingLeft: '1rem',
+            borderLeft: '2px solid #eee',
+          }}
+        >
+          {replies.map((reply) => (
+            <CommentThread key={reply.id} postId={postId} comment={reply} depth={depth + 1} />
+          ))}
+
+          {comment.has_more_replies && (
+            <a
+              href={`/comments/${comment.id}`}
+              style={{ color: '#0066cc', fontSize: '0.85rem', textDecoration: 'none' }}
+            >
+              Continue thread →
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
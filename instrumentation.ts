@@ -0,0 +1,21 @@
+// Server startup hooks (Next.js instrumentation)
+
+/**
+ * Report JWT verification misconfiguration once at startup.
+ * The server still starts (public routes keep working), but requireAuth refuses
+ * every authenticated request until the problems are fixed.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  const { getAuthConfigProblems } = await import('./lib/auth/supabase')
+  const problems = getAuthConfigProblems()
+
+  if (problems.length > 0) {
+    console.error(
+      `Authentication is not configured; authenticated routes will return 500:\n- ${problems.join('\n- ')}`
+    )
+  }
+}
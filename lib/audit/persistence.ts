@@ -0,0 +1,130 @@
+// Moderation Audit Persistence Layer
+// Handles all database operations for the append-only moderation_events log
+
+import { supabase } from '../db/supabase'
+
+/**
+ * Type definitions for audit operations
+ */
+export type AuditTargetType = 'comment' | 'post'
+
+export type AuditAction =
+  | 'moderate'
+  | 'publish'
+  | 'schedule'
+  | 'unschedule'
+  | 'archive'
+  | 'unarchive'
+  | 'delete'
+  | 'restore'
+
+export interface ModerationEventData {
+  actor_id: string | null // null when written by the system (scheduler, spam filter)
+  target_type: AuditTargetType
+  target_id: string
+  action: AuditAction
+  previous_state: string | null
+  new_state: string | null
+  reason?: string | null
+}
+
+export interface ModerationEventFilters {
+  actorId?: string | null
+  targetType?: AuditTargetType | null
+  targetId?: string | null
+  /** Inclusive bounds on created_at (ISO timestamps) */
+  from?: string | null
+  to?: string | null
+}
+
+const EVENT_COLUMNS =
+  'id, actor_id, target_type, target_id, action, previous_state, new_state, reason, created_at'
+
+// ============================================================================
+// RECORD EVENTS
+// ============================================================================
+// SCOPE: Pure persistence operations. Called by routes (and the scheduler) AFTER the
+// state change succeeded. Callers log failures and continue: the change itself is
+// already committed and must not be reported as failed.
+// TRANSACTIONS: TODO - state change and audit insert are separate statements; a crash
+// in between loses the event.
+
+/**
+ * Append moderation events
+ * RESPONSIBILITY: Database insert only. Accepts one event or a batch (bulk moderation).
+ */
+export async function recordModerationEvents(events: ModerationEventData[]) {
+  if (events.length === 0) {
+    return { data: null, error: null }
+  }
+
+  return supabase.from('moderation_events').insert(
+    events.map((event) => ({
+      ...event,
+      reason: event.reason ?? null,
+    }))
+  )
+}
+
+// ============================================================================
+// LIST EVENTS (ADMIN)
+// ============================================================================
+// SCOPE: Pure persistence operations. Authorization (admin-only) and filter
+// validation are enforced by route handler.
+// TRANSACTIONS: Not needed; reads are non-critical and pagination is stateless.
+
+/**
+ * Build a moderation events query with filters applied
+ * RESPONSIBILITY: Query construction only.
+ */
+function moderationEventsQuery(
+  columns: string,
+  filters: ModerationEventFilters,
+  options?: { count?: 'exact'; head?: boolean }
+) {
+  let query = supabase.from('moderation_events').select(columns, options)
+
+  if (filters.actorId) {
+    query = query.eq('actor_id', filters.actorId)
+  }
+
+  if (filters.targetType) {
+    query = query.eq('target_type', filters.targetType)
+  }
+
+  if (filters.targetId) {
+    query = query.eq('target_id', filters.targetId)
+  }
+
+  if (filters.from) {
+    query = query.gte('created_at', filters.from)
+  }
+
+  if (filters.to) {
+    query = query.lte('created_at', filters.to)
+  }
+
+  return query
+}
+
+/**
+ * List moderation events, newest first
+ * RESPONSIBILITY: Database query only. Ordered by (created_at, id) descending.
+ */
+export async function listModerationEvents(
+  offset: number,
+  limit: number,
+  filters: ModerationEventFilters = {}
+) {
+  return moderationEventsQuery(EVENT_COLUMNS, filters)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1)
+}
+
+/**
+ * Get total count of moderation events matching the same filters as listModerationEvents
+ */
+export async function countModerationEvents(filters: ModerationEventFilters = {}) {
+  return moderationEventsQuery('id', filters, { count: 'exact', head: true })
+}
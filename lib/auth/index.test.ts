@@ -0,0 +1,145 @@
+// requireAuth: role resolution from public.users, never from token claims
+// The users lookup goes through supabase-js; global fetch is stubbed to play PostgREST.
+
+import { before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { SignJWT } from 'jose';
+import type { JWTPayload } from 'jose';
+import { NextRequest } from 'next/server';
+import type { requireAuth as RequireAuth } from './index';
+
+const SECRET = 'test-secret-at-least-32-characters-long';
+const ADMIN_ID = '11111111-1111-4111-8111-111111111111';
+const VIEWER_ID = '22222222-2222-4222-8222-222222222222';
+const UNKNOWN_ROLE_ID = '33333333-3333-4333-8333-333333333333';
+const DEACTIVATED_ID = '44444444-4444-4444-8444-444444444444';
+const NO_ROW_ID = '55555555-5555-4555-8555-555555555555';
+
+/** public.users rows served by the fetch stub */
+const USERS: Record<string, { id: string; role: string; deactivated_at: string | null }> = {
+  [ADMIN_ID]: { id: ADMIN_ID, role: 'admin', deactivated_at: null },
+  [VIEWER_ID]: { id: VIEWER_ID, role: 'viewer', deactivated_at: null },
+  [UNKNOWN_ROLE_ID]: { id: UNKNOWN_ROLE_ID, role: 'superuser', deactivated_at: null },
+  [DEACTIVATED_ID]: { id: DEACTIVATED_ID, role: 'admin', deactivated_at: '2024-12-16T10:00:00Z' },
+};
+
+let requireAuth: typeof RequireAuth;
+let usersRequests = 0;
+let failUsersLookup = false;
+
+function sign(userId: string, payload: JWTPayload = {}) {
+  return new SignJWT({ email: `${userId.slice(0, 4)}@example.com`, ...payload })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime('5m')
+    .sign(new TextEncoder().encode(SECRET));
+}
+
+function requestWith(authorization?: string) {
+  return new NextRequest('http://localhost/api/test', {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+before(async () => {
+  mock.method(console, 'error', () => {});
+
+  process.env.SUPABASE_JWT_SECRET = SECRET;
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test';
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key';
+
+  mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    if (url.pathname !== '/rest/v1/users') {
+      throw new Error(`Unexpected request: ${url}`);
+    }
+
+    usersRequests++;
+    if (failUsersLookup) {
+      return Response.json({ message: 'connection refused' }, { status: 500 });
+    }
+
+    const userId = (url.searchParams.get('id') || '').replace(/^eq\./, '');
+    return Response.json(USERS[userId] ? [USERS[userId]] : []);
+  });
+
+  // Imported after env is set: the Supabase client is created at module load
+  ({ requireAuth } = await import('./index'));
+});
+
+beforeEach(() => {
+  usersRequests = 0;
+  failUsersLookup = false;
+});
+
+describe('requireAuth role resolution', () => {
+  it('takes the role from public.users', async () => {
+    const { user, error } = await requireAuth(requestWith(`Bearer ${await sign(ADMIN_ID)}`));
+
+    assert.equal(error, null);
+    assert.equal(user?.id, ADMIN_ID);
+    assert.equal(user?.role, 'admin');
+  });
+
+  it('ignores a role the user wrote into user_metadata', async () => {
+    const token = await sign(VIEWER_ID, { user_metadata: { role: 'admin' }, role: 'admin' });
+    const { user } = await requireAuth(requestWith(`Bearer ${token}`));
+
+    assert.equal(user?.role, 'viewer');
+  });
+
+  it('does not let user_metadata demote a stored admin either', async () => {
+    const token = await sign(ADMIN_ID, { user_metadata: { role: 'viewer' } });
+    const { user } = await requireAuth(requestWith(`Bearer ${token}`));
+
+    assert.equal(user?.role, 'admin');
+  });
+
+  it('falls back to viewer when the user has no row', async () => {
+    const { user } = await requireAuth(requestWith(`Bearer ${await sign(NO_ROW_ID)}`));
+
+    assert.equal(user?.id, NO_ROW_ID);
+    assert.equal(user?.role, 'viewer');
+  });
+
+  it('falls back to viewer for an unknown stored role', async () => {
+    const { user } = await requireAuth(requestWith(`Bearer ${await sign(UNKNOWN_ROLE_ID)}`));
+
+    assert.equal(user?.role, 'viewer');
+  });
+
+  it('refuses a deactivated account with 403', async () => {
+    const { user, error } = await requireAuth(requestWith(`Bearer ${await sign(DEACTIVATED_ID)}`));
+
+    assert.equal(user, null);
+    assert.equal(error?.status, 403);
+  });
+
+  it('fails with 500 when the users lookup fails', async () => {
+    failUsersLookup = true;
+    const { user, error } = await requireAuth(requestWith(`Bearer ${await sign(ADMIN_ID)}`));
+
+    assert.equal(user, null);
+    assert.equal(error?.status, 500);
+  });
+
+  it('rejects a missing header, a malformed header and a bad token with 401', async () => {
+    const results = await Promise.all([
+      requireAuth(requestWith()),
+      requireAuth(requestWith(`Token ${await sign(ADMIN_ID)}`)),
+      requireAuth(requestWith('Bearer not-a-jwt')),
+    ]);
+
+    assert.deepEqual(results.map((result) => result.error?.status), [401, 401, 401]);
+    assert.equal(usersRequests, 0);
+  });
+
+  it('reads the users row once per request', async () => {
+    const request = requestWith(`Bearer ${await sign(ADMIN_ID)}`);
+    await requireAuth(request);
+    await requireAuth(request);
+
+    assert.equal(usersRequests, 1);
+  });
+});
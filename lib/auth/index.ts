@@ -2,7 +2,11 @@
 // Handles auth checks and role-based access control
 
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyToken, extractToken, DecodedToken } from './supabase';
+import { verifyToken, extractToken, getAuthConfigProblems } from './supabase';
+import { getUserAccess } from '../users/persistence';
+
+export { can, ROLE_PERMISSIONS } from './policy';
+export type { Action, Permission, PolicyResource } from './policy';
 
 export interface AuthUser {
   id: string;
@@ -15,14 +19,54 @@ export interface AuthError {
   message: string;
 }
 
+type AuthResult = { user: AuthUser; error: null } | { user: null; error: AuthError };
+
+const ROLES: AuthUser['role'][] = ['admin', 'editor', 'viewer'];
+
+/**
+ * Per-request cache: routes and helpers may authenticate the same request more than
+ * once; the token is verified and the users row read only the first time.
+ * Keyed weakly so entries go away with the request.
+ */
+const authCache = new WeakMap<NextRequest, Promise<AuthResult>>();
+
 /**
  * Require authentication on a request
+ * The role comes from public.users (source of truth, managed via /api/admin/users),
+ * never from the token: Supabase users can edit their own user_metadata. A missing row
+ * or unknown role value falls back to viewer. Deactivated accounts are refused even
+ * while their token is still valid.
  * @param request - Next.js request
  * @returns AuthUser if authenticated, null otherwise
  */
-export async function requireAuth(
-  request: NextRequest
-): Promise<{ user: AuthUser; error: null } | { user: null; error: AuthError }> {
+export function requireAuth(request: NextRequest): Promise<AuthResult> {
+  let result = authCache.get(request);
+  if (!result) {
+    result = authenticate(request);
+    authCache.set(request, result);
+  }
+  return result;
+}
+
+/**
+ * Map a stored role to AuthUser['role'], defaulting to the least privileged role
+ */
+function resolveRole(role: unknown): AuthUser['role'] {
+  return ROLES.includes(role as AuthUser['role']) ? (role as AuthUser['role']) : 'viewer';
+}
+
+async function authenticate(request: NextRequest): Promise<AuthResult> {
+  // Fail closed: without a configured key no token can be trusted
+  if (getAuthConfigProblems().length > 0) {
+    return {
+      user: null,
+      error: {
+        status: 500,
+        message: 'Authentication is not configured',
+      },
+    };
+  }
+
   const authHeader = request.headers.get('Authorization');
   
   if (!authHeader) {
@@ -57,27 +101,54 @@ export async function requireAuth(
     };
   }
 
+  const { data: account, error: accountError } = await getUserAccess(decoded.sub);
+  if (accountError) {
+    console.error('Failed to load user account:', accountError);
+    return {
+      user: null,
+      error: {
+        status: 500,
+        message: 'Failed to verify account',
+      },
+    };
+  }
+
+  if (account?.deactivated_at) {
+    return {
+      user: null,
+      error: {
+        status: 403,
+        message: 'Account is deactivated',
+      },
+    };
+  }
+
   return {
     user: {
       id: decoded.sub,
       email: decoded.email,
-      role: decoded.role,
+      // No public.users row yet (e.g. mid-signup) → viewer
+      role: resolveRole(account?.role),
     },
     error: null,
   };
 }
 
 /**
- * Check if user has required role(s)
- * @param user - Authenticated user
- * @param allowedRoles - Array of allowed roles
- * @returns true if user has one of the allowed roles
+ * Authenticate a request if it carries credentials
+ * Public endpoints use this to unlock extra visibility (e.g. own drafts).
+ * @param request - Next.js request
+ * @returns null user (no error) when no Authorization header is sent;
+ *          a bad or expired token is still reported as an error
  */
-export function hasRole(
-  user: AuthUser,
-  allowedRoles: ('admin' | 'editor' | 'viewer')[]
-): boolean {
-  return allowedRoles.includes(user.role);
+export async function optionalAuth(
+  request: NextRequest
+): Promise<{ user: AuthUser | null; error: null } | { user: null; error: AuthError }> {
+  if (!request.headers.get('Authorization')) {
+    return { user: null, error: null };
+  }
+
+  return requireAuth(request);
 }
 
 /**
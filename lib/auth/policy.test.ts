@@ -0,0 +1,96 @@
+// can(): role × action × ownership table
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { can } from './policy';
+import type { Action, Permission, PolicyResource } from './policy';
+import type { AuthUser } from './index';
+
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_ID = '22222222-2222-4222-8222-222222222222';
+
+type Ownership = 'none' | 'own' | 'other';
+
+const OWNERSHIPS: Ownership[] = ['none', 'own', 'other'];
+const ROLES: AuthUser['role'][] = ['viewer', 'editor', 'admin'];
+
+/**
+ * Expected result per role, one character per ownership case (none, own, other):
+ * 'Y' allowed, '-' denied. 'none' asks without a resource (role-level pre-check).
+ */
+const TABLE: Array<[Action | Permission, Record<AuthUser['role'], string>]> = [
+  ['post:create', { viewer: '---', editor: 'YYY', admin: 'YYY' }],
+  ['post:list', { viewer: '---', editor: '---', admin: 'YYY' }],
+  ['post:read-unpublished', { viewer: 'YY-', editor: 'YY-', admin: 'YYY' }],
+  ['post:update', { viewer: '---', editor: 'YY-', admin: 'YYY' }],
+  ['post:publish', { viewer: '---', editor: 'YY-', admin: 'YYY' }],
+  ['post:archive', { viewer: '---', editor: 'YY-', admin: 'YYY' }],
+  ['post:delete', { viewer: '---', editor: 'YY-', admin: 'YYY' }],
+  ['post:revisions', { viewer: '---', editor: 'YY-', admin: 'YYY' }],
+  ['comment:create', { viewer: 'YYY', editor: 'YYY', admin: 'YYY' }],
+  ['comment:edit', { viewer: 'YY-', editor: 'YY-', admin: 'YY-' }],
+  ['comment:delete', { viewer: 'YY-', editor: 'YY-', admin: 'YY-' }],
+  ['comment:moderate', { viewer: '---', editor: 'YY-', admin: 'YYY' }],
+  ['comment:read-pending', { viewer: '---', editor: '---', admin: 'YYY' }],
+  ['category:manage', { viewer: '---', editor: '---', admin: 'YYY' }],
+  ['tag:manage', { viewer: '---', editor: '---', admin: 'YYY' }],
+  ['audit:read', { viewer: '---', editor: '---', admin: 'YYY' }],
+  ['user:manage', { viewer: '---', editor: '---', admin: 'YYY' }],
+  // Exact scoped permissions still check the resource
+  ['comment:edit:own', { viewer: 'YY-', editor: 'YY-', admin: 'YY-' }],
+  ['comment:delete:own', { viewer: 'YY-', editor: 'YY-', admin: 'YY-' }],
+  ['post:update:own', { viewer: '---', editor: 'YY-', admin: 'YY-' }],
+  ['comment:moderate:own-post', { viewer: '---', editor: 'YY-', admin: 'YY-' }],
+  ['post:update:any', { viewer: '---', editor: '---', admin: 'YYY' }],
+  ['comment:moderate:any', { viewer: '---', editor: '---', admin: 'YYY' }],
+];
+
+function userWithRole(role: AuthUser['role']): AuthUser {
+  return { id: USER_ID, email: 'user@example.com', role };
+}
+
+/**
+ * Resource for an ownership case; comment moderation is scoped by the post's author
+ */
+function resourceFor(action: string, ownership: Ownership): PolicyResource | undefined {
+  if (ownership === 'none') {
+    return undefined;
+  }
+
+  const ownerId = ownership === 'own' ? USER_ID : OTHER_ID;
+  return action.startsWith('comment:moderate')
+    ? { author_id: OTHER_ID, post_author_id: ownerId }
+    : { author_id: ownerId, post_author_id: OTHER_ID };
+}
+
+describe('can', () => {
+  for (const [action, expected] of TABLE) {
+    for (const role of ROLES) {
+      OWNERSHIPS.forEach((ownership, index) => {
+        const allowed = expected[role][index] === 'Y';
+
+        it(`${allowed ? 'allows' : 'denies'} ${role} ${action} (${ownership})`, () => {
+          assert.equal(can(userWithRole(role), action, resourceFor(action, ownership)), allowed);
+        });
+      });
+    }
+  }
+
+  it('denies anonymous users everything', () => {
+    for (const [action] of TABLE) {
+      assert.equal(can(null, action), false);
+    }
+  });
+
+  it('does not treat an own comment on another post as :own-post', () => {
+    const editor = userWithRole('editor');
+    const resource = { author_id: USER_ID, post_author_id: OTHER_ID };
+
+    assert.equal(can(editor, 'comment:moderate', resource), false);
+    assert.equal(can(editor, 'comment:moderate:own-post', resource), false);
+  });
+
+  it('denies a scoped permission when the resource has no owner', () => {
+    assert.equal(can(userWithRole('viewer'), 'comment:edit:own', { author_id: null }), false);
+  });
+});
@@ -0,0 +1,168 @@
+// Authorization policy
+// Single place that maps roles to permissions; routes ask can() instead of checking roles
+
+import type { AuthUser } from './index';
+
+/**
+ * Permissions a role can hold
+ * Scoped permissions end in :own (resource author is the user), :own-post (the post a
+ * comment belongs to is the user's) or :any.
+ */
+export type Permission =
+  | 'post:create'
+  | 'post:list:any'
+  | 'post:read-unpublished:own'
+  | 'post:read-unpublished:any'
+  | 'post:update:own'
+  | 'post:update:any'
+  | 'post:publish:own'
+  | 'post:publish:any'
+  | 'post:archive:own'
+  | 'post:archive:any'
+  | 'post:delete:own'
+  | 'post:delete:any'
+  | 'post:revisions:own'
+  | 'post:revisions:any'
+  | 'comment:create'
+  | 'comment:edit:own'
+  | 'comment:delete:own'
+  | 'comment:moderate:own-post'
+  | 'comment:moderate:any'
+  | 'comment:read-pending'
+  | 'category:manage'
+  | 'tag:manage'
+  | 'audit:read'
+  | 'user:manage';
+
+/**
+ * Actions routes ask about: a permission without its scope suffix
+ */
+export type Action =
+  | 'post:create'
+  | 'post:list'
+  | 'post:read-unpublished'
+  | 'post:update'
+  | 'post:publish'
+  | 'post:archive'
+  | 'post:delete'
+  | 'post:revisions'
+  | 'comment:create'
+  | 'comment:edit'
+  | 'comment:delete'
+  | 'comment:moderate'
+  | 'comment:read-pending'
+  | 'category:manage'
+  | 'tag:manage'
+  | 'audit:read'
+  | 'user:manage';
+
+/**
+ * Ownership facts about the resource being acted on
+ */
+export interface PolicyResource {
+  /** Author of the post or comment itself (:own) */
+  author_id?: string | null;
+  /** Author of the post a comment belongs to (:own-post) */
+  post_author_id?: string | null;
+}
+
+const VIEWER_PERMISSIONS: Permission[] = [
+  'post:read-unpublished:own',
+  'comment:create',
+  'comment:edit:own',
+  'comment:delete:own',
+];
+
+const EDITOR_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  'post:create',
+  'post:update:own',
+  'post:publish:own',
+  'post:archive:own',
+  'post:delete:own',
+  'post:revisions:own',
+  'comment:moderate:own-post',
+];
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  ...EDITOR_PERMISSIONS,
+  'post:list:any',
+  'post:read-unpublished:any',
+  'post:update:any',
+  'post:publish:any',
+  'post:archive:any',
+  'post:delete:any',
+  'post:revisions:any',
+  'comment:moderate:any',
+  'comment:read-pending',
+  'category:manage',
+  'tag:manage',
+  'audit:read',
+  'user:manage',
+];
+
+export const ROLE_PERMISSIONS: Record<AuthUser['role'], ReadonlySet<Permission>> = {
+  viewer: new Set(VIEWER_PERMISSIONS),
+  editor: new Set(EDITOR_PERMISSIONS),
+  admin: new Set(ADMIN_PERMISSIONS),
+};
+
+/**
+ * Check whether a user may perform an action
+ * - An unscoped or :any permission (e.g. 'comment:moderate:any') checks just that permission.
+ * - An exact :own / :own-post permission (e.g. 'comment:edit:own') also requires the
+ *   resource, when given, to belong to the user.
+ * - An action with a resource is allowed by :any, or by :own / :own-post when the
+ *   resource belongs to the user.
+ * - An action without a resource is allowed if the user holds it at any scope; routes
+ *   use this to reject a role with 403 before loading the resource, then check again
+ *   with the resource.
+ * @param user - Authenticated user, or null for anonymous requests (never allowed)
+ */
+export function can(
+  user: AuthUser | null,
+  action: Action | Permission,
+  resource?: PolicyResource
+): boolean {
+  if (!user) {
+    return false;
+  }
+
+  const granted = ROLE_PERMISSIONS[user.role];
+  if (!granted) {
+    return false;
+  }
+
+  if (action.endsWith(':own') || action.endsWith(':own-post')) {
+    return granted.has(action as Permission) && ownsResource(user, action, resource);
+  }
+
+  if (granted.has(action as Permission) || granted.has(`${action}:any` as Permission)) {
+    return true;
+  }
+
+  const own = granted.has(`${action}:own` as Permission);
+  const ownPost = granted.has(`${action}:own-post` as Permission);
+
+  if (!resource) {
+    return own || ownPost;
+  }
+
+  return (
+    (own && ownsResource(user, 'own', resource)) ||
+    (ownPost && ownsResource(user, 'own-post', resource))
+  );
+}
+
+/**
+ * Whether the resource satisfies an :own / :own-post scope for the user
+ * No resource means the caller is only asking about the role (see can).
+ */
+function ownsResource(user: AuthUser, scope: string, resource?: PolicyResource): boolean {
+  if (!resource) {
+    return true;
+  }
+
+  const ownerId = scope.endsWith('own-post') ? resource.post_author_id : resource.author_id;
+  return !!ownerId && ownerId === user.id;
+}
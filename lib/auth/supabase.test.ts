@@ -0,0 +1,132 @@
+// verifyToken: signature, algorithm and claim checks for both key sources
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import type { CryptoKey, JWTPayload } from 'jose';
+import { verifyToken, getAuthConfigProblems } from './supabase';
+
+const SECRET = 'test-secret-at-least-32-characters-long';
+const ISSUER = 'https://project.supabase.co/auth/v1';
+const USER_ID = '11111111-1111-4111-8111-111111111111';
+
+let jwksDir: string;
+let rsaKey: CryptoKey;
+
+function signHs256(payload: JWTPayload, secret = SECRET, issuer = ISSUER) {
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(USER_ID)
+    .setIssuer(issuer)
+    .setIssuedAt()
+    .setExpirationTime('5m')
+    .sign(new TextEncoder().encode(secret));
+}
+
+function signRs256(payload: JWTPayload, key: CryptoKey, kid = 'key-1') {
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: 'RS256', kid })
+    .setSubject(USER_ID)
+    .setIssuer(ISSUER)
+    .setIssuedAt()
+    .setExpirationTime('5m')
+    .sign(key);
+}
+
+before(async () => {
+  mock.method(console, 'error', () => {});
+
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  rsaKey = privateKey;
+  jwksDir = mkdtempSync(join(tmpdir(), 'jwks-'));
+  const jwksFile = join(jwksDir, 'jwks.json');
+  writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...(await exportJWK(publicKey)), kid: 'key-1', alg: 'RS256' }] }));
+
+  process.env.SUPABASE_JWT_SECRET = SECRET;
+  process.env.SUPABASE_JWKS_FILE = jwksFile;
+  process.env.SUPABASE_JWT_ISSUER = ISSUER;
+});
+
+after(() => {
+  rmSync(jwksDir, { recursive: true, force: true });
+});
+
+describe('verifyToken', () => {
+  it('reports no config problems with a secret and a JWKS file', () => {
+    assert.deepEqual(getAuthConfigProblems(), []);
+  });
+
+  it('accepts an HS256 token signed with the secret', async () => {
+    const token = await signHs256({ email: 'user@example.com' });
+    const decoded = await verifyToken(token);
+
+    assert.equal(decoded?.sub, USER_ID);
+    assert.equal(decoded?.email, 'user@example.com');
+  });
+
+  it('never returns a role, even when user_metadata carries one', async () => {
+    const token = await signHs256({ email: 'user@example.com', user_metadata: { role: 'admin' } });
+    const decoded = await verifyToken(token);
+
+    assert.ok(decoded);
+    assert.equal('role' in decoded, false);
+  });
+
+  it('rejects a token whose payload was edited after signing', async () => {
+    const token = await signHs256({ email: 'user@example.com', user_metadata: { role: 'viewer' } });
+    const [header, payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    claims.user_metadata.role = 'admin';
+    const tampered = [header, Buffer.from(JSON.stringify(claims)).toString('base64url'), signature].join('.');
+
+    assert.equal(await verifyToken(tampered), null);
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signHs256({ email: 'user@example.com' }, 'another-secret-at-least-32-characters');
+    assert.equal(await verifyToken(token), null);
+  });
+
+  it('rejects an unsigned (alg none) token', async () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(
+      JSON.stringify({ sub: USER_ID, email: 'user@example.com', iss: ISSUER, exp: Math.floor(Date.now() / 1000) + 300 })
+    ).toString('base64url');
+
+    assert.equal(await verifyToken(`${header}.${payload}.`), null);
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await new SignJWT({ email: 'user@example.com' })
+      .setProtectedHeader({ alg: 'HS256' })
+      .setSubject(USER_ID)
+      .setIssuer(ISSUER)
+      .setIssuedAt(Math.floor(Date.now() / 1000) - 600)
+      .setExpirationTime(Math.floor(Date.now() / 1000) - 300)
+      .sign(new TextEncoder().encode(SECRET));
+
+    assert.equal(await verifyToken(token), null);
+  });
+
+  it('rejects a token from another issuer', async () => {
+    const token = await signHs256({ email: 'user@example.com' }, SECRET, 'https://evil.example.com');
+    assert.equal(await verifyToken(token), null);
+  });
+
+  it('accepts an RS256 token signed by a key in the JWKS', async () => {
+    const token = await signRs256({ email: 'user@example.com' }, rsaKey);
+    const decoded = await verifyToken(token);
+
+    assert.equal(decoded?.sub, USER_ID);
+  });
+
+  it('rejects an RS256 token signed by a key outside the JWKS', async () => {
+    const { privateKey } = await generateKeyPair('RS256');
+    const token = await signRs256({ email: 'user@example.com' }, privateKey);
+
+    assert.equal(await verifyToken(token), null);
+  });
+});
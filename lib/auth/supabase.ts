@@ -1,27 +1,128 @@
 // JWT token verification utilities
 // Validates Supabase JWT tokens and extracts user claims
 
-import { jwtVerify } from 'jose';
+import { readFileSync, statSync } from 'fs';
+import {
+  jwtVerify,
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  decodeProtectedHeader,
+  JSONWebKeySet,
+  JWTVerifyOptions,
+} from 'jose';
 
 export interface DecodedToken {
   sub: string; // user id
   email: string;
-  role: 'admin' | 'editor' | 'viewer';
+  // No role: user_metadata is user-editable in Supabase; requireAuth reads users.role
   iat: number;
   exp: number;
 }
 
+/** Algorithms accepted for each key source (no alg downgrade between them) */
+const SECRET_ALGORITHMS = ['HS256'];
+const JWKS_ALGORITHMS = ['RS256', 'ES256'];
+
+let configProblems: string[] | null = null;
+let remoteJwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+let localJwks: { mtimeMs: number; keySet: ReturnType<typeof createLocalJWKSet> } | null = null;
+
+/**
+ * Validate JWT verification settings (computed once; env does not change at runtime)
+ * Keys: SUPABASE_JWT_SECRET (HS256) and/or one of SUPABASE_JWKS_URL, SUPABASE_JWKS_FILE
+ * (RS256/ES256). Optional claim checks: SUPABASE_JWT_ISSUER, SUPABASE_JWT_AUDIENCE.
+ * Called at server start (instrumentation.ts) and by requireAuth, which refuses to
+ * authenticate anyone while problems remain.
+ * @returns Human-readable problems; empty when verification is configured
+ */
+export function getAuthConfigProblems(): string[] {
+  if (configProblems) {
+    return configProblems;
+  }
+
+  const problems: string[] = [];
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  const jwksUrl = process.env.SUPABASE_JWKS_URL;
+  const jwksFile = process.env.SUPABASE_JWKS_FILE;
+
+  if (!secret && !jwksUrl && !jwksFile) {
+    problems.push('Set SUPABASE_JWT_SECRET and/or SUPABASE_JWKS_URL / SUPABASE_JWKS_FILE');
+  }
+
+  if (jwksUrl && jwksFile) {
+    problems.push('Set only one of SUPABASE_JWKS_URL and SUPABASE_JWKS_FILE');
+  }
+
+  if (jwksUrl) {
+    try {
+      const url = new URL(jwksUrl);
+      const local = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+      if (url.protocol !== 'https:' && !(local && url.protocol === 'http:')) {
+        problems.push('SUPABASE_JWKS_URL must use https');
+      }
+    } catch {
+      problems.push('SUPABASE_JWKS_URL is not a valid URL');
+    }
+  }
+
+  if (jwksFile) {
+    try {
+      createLocalJWKSet(JSON.parse(readFileSync(jwksFile, 'utf8')) as JSONWebKeySet);
+    } catch (error) {
+      problems.push(`SUPABASE_JWKS_FILE could not be loaded: ${(error as Error).message}`);
+    }
+  }
+
+  configProblems = problems;
+  return problems;
+}
+
+/**
+ * Issuer / audience checks shared by both key sources
+ */
+function getClaimOptions(): Pick<JWTVerifyOptions, 'issuer' | 'audience'> {
+  const issuer = process.env.SUPABASE_JWT_ISSUER;
+  const audience = (process.env.SUPABASE_JWT_AUDIENCE || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+  return {
+    issuer: issuer || undefined,
+    audience: audience.length > 0 ? audience : undefined,
+  };
+}
+
 /**
- * Get the secret key for JWT verification
- * In production, this should be loaded from environment variables
+ * Get the JWKS resolver for asymmetric tokens
+ * REMOTE: jose caches the key set and refetches it when a token names an unknown kid
+ * (key rotation), at most once per cooldown period.
+ * LOCAL: the file is re-read when its modification time changes, so rotating keys
+ * only needs the file replaced.
  */
-function getJwtSecret(): Uint8Array {
-  const secret = process.env.SUPABASE_JWT_SECRET || 'your-secret-key-here';
-  return new TextEncoder().encode(secret);
+function getJwks() {
+  const jwksUrl = process.env.SUPABASE_JWKS_URL;
+  if (jwksUrl) {
+    if (!remoteJwks) {
+      remoteJwks = createRemoteJWKSet(new URL(jwksUrl));
+    }
+    return remoteJwks;
+  }
+
+  const jwksFile = process.env.SUPABASE_JWKS_FILE as string;
+  const { mtimeMs } = statSync(jwksFile);
+  if (!localJwks || localJwks.mtimeMs !== mtimeMs) {
+    const keySet = JSON.parse(readFileSync(jwksFile, 'utf8')) as JSONWebKeySet;
+    localJwks = { mtimeMs, keySet: createLocalJWKSet(keySet) };
+  }
+  return localJwks.keySet;
 }
 
 /**
  * Verify and decode a Supabase JWT token
+ * HS256 tokens are checked against SUPABASE_JWT_SECRET, RS256/ES256 tokens against the
+ * configured JWKS; a token whose key source is not configured is rejected.
+ * Callers must check getAuthConfigProblems() first (requireAuth does).
  * @param token - JWT token from Authorization header
  * @returns Decoded token or null if invalid
  */
@@ -29,16 +130,31 @@ export async function verifyToken(
   token: string
 ): Promise<DecodedToken | null> {
   try {
-    const secret = getJwtSecret();
-    const verified = await jwtVerify(token, secret);
-    
+    const { alg } = decodeProtectedHeader(token);
+    const claimOptions = getClaimOptions();
+    const secret = process.env.SUPABASE_JWT_SECRET;
+    const hasJwks = Boolean(process.env.SUPABASE_JWKS_URL || process.env.SUPABASE_JWKS_FILE);
+
+    let verified;
+    if (alg && SECRET_ALGORITHMS.includes(alg) && secret) {
+      verified = await jwtVerify(token, new TextEncoder().encode(secret), {
+        ...claimOptions,
+        algorithms: SECRET_ALGORITHMS,
+      });
+    } else if (alg && JWKS_ALGORITHMS.includes(alg) && hasJwks) {
+      verified = await jwtVerify(token, getJwks(), {
+        ...claimOptions,
+        algorithms: JWKS_ALGORITHMS,
+      });
+    } else {
+      throw new Error(`No verification key configured for alg ${alg}`);
+    }
+
     const payload = verified.payload as Record<string, unknown>;
-    const userMetadata = payload.user_metadata as Record<string, unknown> | undefined;
-    
+
     return {
       sub: payload.sub as string,
       email: payload.email as string,
-      role: ((userMetadata?.role as string) || 'viewer') as 'admin' | 'editor' | 'viewer',
       iat: payload.iat as number,
       exp: payload.exp as number,
     };
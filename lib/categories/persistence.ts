@@ -0,0 +1,192 @@
+// Categories Persistence Layer
+// Handles all database operations for admin category management
+
+import { supabase } from '../db/supabase'
+import { CategoryNode } from './tree'
+
+/**
+ * Type definitions for category operations
+ */
+export interface CategoryCreationData {
+  name: string
+  slug: string
+  parent_id: string | null
+}
+
+export interface CategoryUpdateData {
+  name?: string
+  slug?: string
+  is_active?: boolean
+  parent_id?: string | null
+}
+
+// ============================================================================
+// LIST / GET CATEGORIES (ADMIN)
+// ============================================================================
+// SCOPE: Pure persistence operations. Authorization (admin-only) is enforced by route handler.
+// NOTE: Public GET /api/categories keeps its own query (active categories only).
+
+/**
+ * List all categories, active and inactive, with linked post counts
+ * RESPONSIBILITY: Database query only. post_categories(count) is an aggregate embed,
+ * so counts come back in the same query.
+ */
+export async function listAllCategories() {
+  return supabase
+    .from('categories')
+    .select('id, name, slug, parent_id, is_active, created_at, post_categories(count)')
+    .order('name', { ascending: true })
+}
+
+/**
+ * List the category hierarchy (all categories, minimal fields)
+ * RESPONSIBILITY: Database query only. Callers walk it in memory with lib/categories/tree.ts
+ * (tree view, breadcrumbs, descendants, cycle checks).
+ */
+export async function listCategoryHierarchy() {
+  return supabase
+    .from('categories')
+    .select('id, name, slug, parent_id, is_active')
+    .order('name', { ascending: true })
+    .returns<CategoryNode[]>()
+}
+
+/**
+ * Get category by ID
+ * RESPONSIBILITY: Database read only. Returns null data (no error) if not found.
+ */
+export async function getCategoryById(categoryId: string) {
+  return supabase
+    .from('categories')
+    .select('id, name, slug, parent_id, is_active, created_at')
+    .eq('id', categoryId)
+    .maybeSingle()
+}
+
+/**
+ * Find a category using a slug, optionally ignoring one category
+ * RESPONSIBILITY: Database read only. Route uses this for slug uniqueness (409).
+ * @param excludeCategoryId - Category being renamed (its own slug is not a conflict)
+ */
+export async function findCategoryBySlug(slug: string, excludeCategoryId?: string) {
+  let query = supabase
+    .from('categories')
+    .select('id')
+    .eq('slug', slug)
+
+  if (excludeCategoryId) {
+    query = query.neq('id', excludeCategoryId)
+  }
+
+  return query.maybeSingle()
+}
+
+/**
+ * Count posts linked to a category
+ * RESPONSIBILITY: Database read only. Route blocks hard delete of categories in use.
+ */
+export async function countCategoryPosts(categoryId: string) {
+  return supabase
+    .from('post_categories')
+    .select('post_id', { count: 'exact', head: true })
+    .eq('category_id', categoryId)
+}
+
+// ============================================================================
+// CREATE / UPDATE / DELETE CATEGORY
+// ============================================================================
+// SCOPE: Pure persistence operations. Name/slug validation and slug uniqueness
+// are enforced by route handler; categories.slug unique constraint is the backstop.
+// TRANSACTIONS: Not needed; each operation is a single statement.
+
+/**
+ * Create category (active)
+ * RESPONSIBILITY: Database insert only.
+ */
+export async function createCategory(data: CategoryCreationData) {
+  return supabase
+    .from('categories')
+    .insert({
+      name: data.name,
+      slug: data.slug,
+      parent_id: data.parent_id,
+      is_active: true,
+    })
+    .select('id, name, slug, parent_id, is_active, created_at')
+    .single()
+}
+
+/**
+ * Update category name, slug, parent and/or active flag
+ * RESPONSIBILITY: Database update only. Deactivating only hides the category from
+ * GET /api/categories; existing post_categories links are untouched.
+ * Route checks parent_id for cycles; the categories_prevent_cycle trigger is the backstop.
+ */
+export async function updateCategory(categoryId: string, data: CategoryUpdateData) {
+  return supabase
+    .from('categories')
+    .update(data)
+    .eq('id', categoryId)
+    .select('id, name, slug, parent_id, is_active, created_at')
+    .single()
+}
+
+/**
+ * Delete category
+ * RESPONSIBILITY: Database delete only. Route ensures no posts link to it
+ * (post_categories would otherwise cascade and silently drop links).
+ * Child categories become top-level (parent_id on delete set null).
+ */
+export async function deleteCategory(categoryId: string) {
+  return supabase
+    .from('categories')
+    .delete()
+    .eq('id', categoryId)
+}
+
+// ============================================================================
+// MERGE CATEGORIES
+// ============================================================================
+// SCOPE: Pure persistence operations. Route validates both categories exist and differ.
+// TRANSACTIONS: merge_categories (migration.sql) runs as one statement-level transaction:
+// re-points links, drops duplicates and deletes the source together.
+
+/**
+ * Merge source category into target
+ * RESPONSIBILITY: RPC call only. Every post linked to source ends up linked to target
+ * (posts already linked to both keep a single link); child categories of source are
+ * moved under target; source is deleted.
+ * @returns Number of posts re-pointed to target
+ */
+export async function mergeCategories(sourceCategoryId: string, targetCategoryId: string) {
+  return supabase.rpc('merge_categories', {
+    source_id: sourceCategoryId,
+    target_id: targetCategoryId,
+  })
+}
+
+// ============================================================================
+// HELPER UTILITIES
+// ============================================================================
+
+/**
+ * Format category for admin responses
+ * RESPONSIBILITY: Structural transformation only. Flattens post_categories(count).
+ */
+export function formatAdminCategory(category: Record<string, unknown>) {
+  const response: Record<string, unknown> = {
+    id: category.id,
+    name: category.name,
+    slug: category.slug,
+    parent_id: category.parent_id ?? null,
+    is_active: category.is_active,
+    created_at: category.created_at,
+  }
+
+  if (category.post_categories !== undefined) {
+    const counts = category.post_categories as Array<{ count: number }> | undefined
+    response.post_count = counts?.[0]?.count ?? 0
+  }
+
+  return response
+}
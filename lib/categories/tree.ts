@@ -0,0 +1,144 @@
+// Category hierarchy helpers
+// Pure functions over the full category list (categories are few, so the
+// hierarchy is loaded once per request and walked in memory)
+
+export interface CategoryNode {
+  id: string
+  name: string
+  slug: string
+  parent_id: string | null
+  is_active: boolean
+}
+
+export interface CategoryTreeNode {
+  id: string
+  name: string
+  slug: string
+  children: CategoryTreeNode[]
+}
+
+export interface CategoryCrumb {
+  id: string
+  name: string
+  slug: string
+}
+
+/**
+ * Ancestors of a category, nearest first
+ * Stops at a repeated id, so malformed data (a cycle) cannot loop forever.
+ */
+function ancestorsOf(byId: Map<string, CategoryNode>, categoryId: string): CategoryNode[] {
+  const ancestors: CategoryNode[] = []
+  const seen = new Set<string>([categoryId])
+  let parentId = byId.get(categoryId)?.parent_id ?? null
+
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId)
+    if (!parent) {
+      break
+    }
+    ancestors.push(parent)
+    seen.add(parentId)
+    parentId = parent.parent_id
+  }
+
+  return ancestors
+}
+
+/**
+ * Build the nested category tree of active categories
+ * Children are ordered by name. An active category whose parent is inactive is
+ * attached to its nearest active ancestor (or the root), so deactivating a
+ * section does not hide its subsections.
+ */
+export function buildCategoryTree(categories: CategoryNode[]): CategoryTreeNode[] {
+  const byId = new Map(categories.map((category) => [category.id, category]))
+  const nodes = new Map<string, CategoryTreeNode>()
+
+  for (const category of categories) {
+    if (category.is_active) {
+      nodes.set(category.id, { id: category.id, name: category.name, slug: category.slug, children: [] })
+    }
+  }
+
+  const roots: CategoryTreeNode[] = []
+  for (const category of categories) {
+    const node = nodes.get(category.id)
+    if (!node) {
+      continue
+    }
+
+    const activeAncestor = ancestorsOf(byId, category.id).find((ancestor) => ancestor.is_active)
+    if (activeAncestor) {
+      nodes.get(activeAncestor.id)!.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+
+  const sortByName = (list: CategoryTreeNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name))
+    list.forEach((node) => sortByName(node.children))
+  }
+  sortByName(roots)
+
+  return roots
+}
+
+/**
+ * Breadcrumb trail for a category, root first and ending with the category itself
+ * @returns Empty array if the category is unknown
+ */
+export function getBreadcrumb(categories: CategoryNode[], categoryId: string): CategoryCrumb[] {
+  const byId = new Map(categories.map((category) => [category.id, category]))
+  const category = byId.get(categoryId)
+  if (!category) {
+    return []
+  }
+
+  return [...ancestorsOf(byId, categoryId).reverse(), category].map((node) => ({
+    id: node.id,
+    name: node.name,
+    slug: node.slug,
+  }))
+}
+
+/**
+ * Ids of a category and all its descendants
+ */
+export function getDescendantIds(categories: CategoryNode[], categoryId: string): string[] {
+  const childrenByParent = new Map<string, string[]>()
+  for (const category of categories) {
+    if (category.parent_id) {
+      const siblings = childrenByParent.get(category.parent_id) || []
+      siblings.push(category.id)
+      childrenByParent.set(category.parent_id, siblings)
+    }
+  }
+
+  const ids = new Set<string>([categoryId])
+  const queue = [categoryId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const childId of childrenByParent.get(current) || []) {
+      if (!ids.has(childId)) {
+        ids.add(childId)
+        queue.push(childId)
+      }
+    }
+  }
+
+  return [...ids]
+}
+
+/**
+ * Whether setting categoryId's parent to parentId would create a cycle
+ * True when parentId is the category itself or one of its descendants.
+ */
+export function wouldCreateCycle(
+  categories: CategoryNode[],
+  categoryId: string,
+  parentId: string
+): boolean {
+  return getDescendantIds(categories, categoryId).includes(parentId)
+}
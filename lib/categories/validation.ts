@@ -0,0 +1,81 @@
+// Category validation utilities
+// Validates category name, slug and parent for admin category management
+
+/**
+ * Validate category name
+ * @param name - Category name to validate
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateCategoryName(name: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (!name) {
+    return { valid: false, error: 'Name is required' }
+  }
+
+  if (typeof name !== 'string') {
+    return { valid: false, error: 'Name must be a string' }
+  }
+
+  if (name.trim().length === 0) {
+    return { valid: false, error: 'Name cannot be empty' }
+  }
+
+  if (name.length > 100) {
+    return { valid: false, error: 'Name must be 100 characters or less' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate an explicit category slug
+ * Slugs are normally generated from the name via slugify(); an explicit slug
+ * must already be in slugify() form (lowercase letters, digits, single hyphens).
+ * @param slug - Slug to validate
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateCategorySlug(slug: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (typeof slug !== 'string' || slug.length === 0) {
+    return { valid: false, error: 'Slug must be a non-empty string' }
+  }
+
+  if (slug.length > 100) {
+    return { valid: false, error: 'Slug must be 100 characters or less' }
+  }
+
+  if (!/^[a-z0-9_]+(-[a-z0-9_]+)*$/.test(slug)) {
+    return {
+      valid: false,
+      error: 'Slug may contain only lowercase letters, digits, underscores and single hyphens',
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate parent_id format (UUID or null for a top-level category)
+ * Existence and cycle checks need the hierarchy and are done by the route.
+ * @param parentId - parent_id from request body
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateParentCategoryId(parentId: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (parentId === null) {
+    return { valid: true }
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  if (typeof parentId !== 'string' || !uuidRegex.test(parentId)) {
+    return { valid: false, error: 'parent_id must be a category UUID or null' }
+  }
+
+  return { valid: true }
+}
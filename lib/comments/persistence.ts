@@ -1,7 +1,9 @@
 // Comments Persistence Layer
 // Handles all database operations for comments CRUD
 
+import { createHash } from 'crypto'
 import { supabase } from '../db/supabase'
+import { KeysetCursor, keysetFilter } from '../pagination/cursor'
 
 /**
  * Type definitions for comment operations
@@ -11,12 +13,24 @@ export interface CommentCreationData {
   author_id: string
   content: string
   parent_comment_id?: string | null
+  /** 'spam' when the spam pipeline auto-files the comment; defaults to 'pending' */
+  status?: 'pending' | 'spam'
+  spam_score?: number
+  spam_reasons?: string[]
 }
 
 export interface CommentModerationData {
   status: 'approved' | 'rejected' | 'spam'
 }
 
+/**
+ * SHA-256 (hex) of a comment's content, stored as comments.content_hash
+ * Duplicate lookups compare on the hash so the body never goes into a query string.
+ */
+export function hashCommentContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex')
+}
+
 // ============================================================================
 // SUBMIT COMMENT (C3.5)
 // ============================================================================
@@ -36,6 +50,7 @@ export async function getPublishedPost(postId: string) {
     .from('posts')
     .select('id, status')
     .eq('id', postId)
+    .is('deleted_at', null)
     .single()
 }
 
@@ -51,11 +66,12 @@ export async function getApprovedComment(commentId: string, postId: string) {
     .select('id, status')
     .eq('id', commentId)
     .eq('post_id', postId)
+    .is('deleted_at', null)
     .single()
 }
 
 /**
- * Create new comment in pending state
+ * Create new comment in pending state (or spam, when auto-filed by the spam pipeline)
  * RESPONSIBILITY: Database insert only. Does NOT validate:
  *   - Post exists or is published (checked by route via getPublishedPost)
  *   - Parent comment exists/approved (checked by route via getApprovedComment)
@@ -69,8 +85,11 @@ export async function createPendingComment(data: CommentCreationData) {
       post_id: data.post_id,
       author_id: data.author_id,
       content: data.content,
-      status: 'pending',
+      content_hash: hashCommentContent(data.content),
+      status: data.status || 'pending',
       parent_comment_id: data.parent_comment_id || null,
+      spam_score: data.spam_score ?? 0,
+      spam_reasons: data.spam_reasons || [],
     })
     .select(
       'id, post_id, author_id, content, status, parent_comment_id, created_at, approved_at, users!author_id (id, email)'
@@ -102,42 +121,73 @@ export async function countApprovedTopLevelComments(postId: string) {
  * List approved top-level comments with pagination
  * RESPONSIBILITY: Database query only. Fetches approved comments and author details.
  * SORTING: sortOrder parameter directly controls database ordering. Route validates values.
- * NOTE: Route handler pairs replies via separate getApprovedReplies() calls (N+1 pattern).
+ * NOTE: Route handler loads reply trees for the whole page via getApprovedReplyThreads().
+ * KEYSET: When a cursor is given, only comments strictly after (created_at, id) are
+ * returned; route passes offset 0 in that case. id is the tie-breaker in both modes.
  */
 export async function listApprovedTopLevelComments(
   postId: string,
   offset: number,
   limit: number,
-  sortOrder: 'asc' | 'desc'
+  sortOrder: 'asc' | 'desc',
+  cursor: KeysetCursor | null = null
 ) {
-  return supabase
+  let query = supabase
     .from('comments')
     .select(
-      'id, post_id, author_id, content, status, parent_comment_id, created_at, users!author_id (id, email)'
+      'id, post_id, author_id, content, status, parent_comment_id, created_at, edited_at, deleted_at, users!author_id (id, email)'
     )
     .eq('post_id', postId)
     .eq('status', 'approved')
     .is('parent_comment_id', null)
+
+  if (cursor) {
+    query = query.or(keysetFilter('created_at', sortOrder, cursor))
+  }
+
+  return query
     .order('created_at', { ascending: sortOrder === 'asc' })
+    .order('id', { ascending: sortOrder === 'asc' })
     .range(offset, offset + limit - 1)
 }
 
 /**
- * Get approved replies for a parent comment
- * RESPONSIBILITY: Database query only. Called once per parent comment by route (N+1 pattern).
- * INVARIANT: Replies always ordered oldest-first (created_at ASC) per spec, regardless
+ * Get approved reply trees below a set of comments in a single query
+ * RESPONSIBILITY: RPC call only (get_comment_threads, recursive CTE in migration.sql).
+ * Returns flat rows (id, author_id, author_email, content, parent_comment_id, created_at,
+ * edited_at, deleted_at, depth, has_more_replies); route nests them via groupRepliesByParent() + formatCommentWithReplies().
+ * DEPTH: Direct replies are depth 1; rows stop at maxDepth. has_more_replies marks rows at
+ * maxDepth that have approved replies of their own ("continue thread").
+ * VISIBILITY: Only approved comments are walked, so a non-approved reply hides its branch.
+ * INVARIANT: Replies always ordered oldest-first (created_at ASC, id ASC) per spec, regardless
  * of parent comment sort order. This maintains chronological reply order for readability.
+ * @param rootCommentIds - Comments whose replies are loaded (e.g. top-level comments on a page)
+ */
+export async function getApprovedReplyThreads(rootCommentIds: string[], maxDepth: number) {
+  return supabase.rpc('get_comment_threads', {
+    root_ids: rootCommentIds,
+    max_depth: maxDepth,
+  })
+}
+
+// ============================================================================
+// COMMENT THREAD (continue thread)
+// ============================================================================
+// SCOPE: Pure persistence operations. Public read; route verifies the post is published.
+
+/**
+ * Fetch a single approved comment with author details
+ * RESPONSIBILITY: Database read only. Root of GET /api/comments/{id}/thread.
  */
-export async function getApprovedReplies(postId: string, parentCommentId: string) {
+export async function getApprovedCommentWithAuthor(commentId: string) {
   return supabase
     .from('comments')
     .select(
-      'id, author_id, content, created_at, users!author_id (id, email)'
+      'id, post_id, author_id, content, status, parent_comment_id, created_at, edited_at, deleted_at, users!author_id (id, email)'
     )
-    .eq('post_id', postId)
-    .eq('parent_comment_id', parentCommentId)
+    .eq('id', commentId)
     .eq('status', 'approved')
-    .order('created_at', { ascending: true })
+    .maybeSingle()
 }
 
 // ============================================================================
@@ -147,20 +197,78 @@ export async function getApprovedReplies(postId: string, parentCommentId: string
 // Authorization (admin-only) is enforced by route handler.
 // TRANSACTIONS: Not needed; reads are non-critical and queries are stateless.
 
+export type QueueStatus = 'pending' | 'spam'
+
+export interface PendingCommentFilters {
+  /** Queue to list: awaiting moderation (default) or auto-filed as spam */
+  status?: QueueStatus | null
+  postId?: string | null
+  authorId?: string | null
+  /** Only comments created at or before this time (minimum age) */
+  createdBefore?: string | null
+  /** Only comments created at or after this time (maximum age) */
+  createdAfter?: string | null
+}
+
 /**
- * List all pending comments ordered by creation date (oldest first)
- * RESPONSIBILITY: Database query only. Fetches all pending comments with author details.
- * AUTHORIZATION SUPPORT: Route validates admin role before calling this function.
- * BEHAVIOR: No pagination (v1 requirement). Returns all pending comments ordered ASC.
+ * Build a pending-comments query with filters applied
+ * RESPONSIBILITY: Query construction only.
  */
-export async function listPendingComments() {
-  return supabase
+function pendingCommentsQuery(
+  columns: string,
+  filters: PendingCommentFilters,
+  options?: { count?: 'exact'; head?: boolean }
+) {
+  let query = supabase
     .from('comments')
-    .select(
-      'id, post_id, author_id, content, created_at, users!author_id (id, email)'
-    )
-    .eq('status', 'pending')
+    .select(columns, options)
+    .eq('status', filters.status || 'pending')
+
+  if (filters.postId) {
+    query = query.eq('post_id', filters.postId)
+  }
+
+  if (filters.authorId) {
+    query = query.eq('author_id', filters.authorId)
+  }
+
+  if (filters.createdBefore) {
+    query = query.lte('created_at', filters.createdBefore)
+  }
+
+  if (filters.createdAfter) {
+    query = query.gte('created_at', filters.createdAfter)
+  }
+
+  return query
+}
+
+/**
+ * List a page of pending (or spam) comments ordered by creation date (oldest first)
+ * RESPONSIBILITY: Database query only. Fetches queued comments with author details
+ * and the title of the post each comment belongs to (moderation context).
+ * AUTHORIZATION SUPPORT: Route validates admin role before calling this function.
+ * BEHAVIOR: Ordered by (created_at, id) ASC; filters are applied before pagination.
+ */
+export async function listPendingComments(
+  offset: number,
+  limit: number,
+  filters: PendingCommentFilters = {}
+) {
+  return pendingCommentsQuery(
+    'id, post_id, author_id, content, status, created_at, spam_score, spam_reasons, users!author_id (id, email), posts!post_id (id, title, slug)',
+    filters
+  )
     .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1)
+}
+
+/**
+ * Get total count of pending comments matching the same filters as listPendingComments
+ */
+export async function countPendingComments(filters: PendingCommentFilters = {}) {
+  return pendingCommentsQuery('id', filters, { count: 'exact', head: true })
 }
 
 // ============================================================================
@@ -168,8 +276,9 @@ export async function listPendingComments() {
 // ============================================================================
 // SCOPE: Pure persistence operations supporting moderation workflow.
 // Authorization (admin vs editor ownership) is enforced by route handler.
-// TRANSACTIONS: TODO - getCommentById -> getPostForOwnershipCheck -> moderateComment
-// should be transactional in v2 to prevent race conditions during moderation.
+// TRANSACTIONS: getCommentById -> getPostForOwnershipCheck -> moderateComment are
+// separate statements; moderateComment only applies if the status is unchanged since
+// the read, so concurrent moderators cannot overwrite each other silently.
 
 /**
  * Get comment by ID with basic fields
@@ -203,19 +312,78 @@ export async function getPostForOwnershipCheck(postId: string) {
  * Update comment status (approve, reject, or spam)
  * RESPONSIBILITY: Database update only. Does NOT validate:
  *   - Comment exists (checked by route via getCommentById)
- *   - Comment is pending (route validates status != pending returns 409)
+ *   - Transition allowed (route: pending -> any, or re-moderation with a reason)
  *   - User authorization (route checks admin vs editor + ownership)
  *   - Status value valid (route validates before calling)
- * BEHAVIOR: Atomically sets approved_at timestamp when status = 'approved'.
- * This is the ONLY case where approved_at is populated (business rule).
+ * BEHAVIOR: Atomically sets approved_at timestamp when status = 'approved' and clears
+ * it for any other status (un-approve). approved_at is only ever set on approval.
+ * CONCURRENCY: Only updates the row while it still has expectedStatus (the status the
+ * route validated); otherwise no row matches and .single() fails with PGRST116.
+ * SIDE EFFECT: posts.comment_count is adjusted by a database trigger on the status change.
  */
 export async function moderateComment(
   commentId: string,
+  status: 'approved' | 'rejected' | 'spam',
+  expectedStatus: string
+) {
+  const updateData: Record<string, unknown> = {
+    status,
+    approved_at: status === 'approved' ? new Date().toISOString() : null,
+  }
+
+  return supabase
+    .from('comments')
+    .update(updateData)
+    .eq('id', commentId)
+    .eq('status', expectedStatus)
+    .select(
+      'id, post_id, author_id, content, status, created_at, approved_at, users!author_id (id, email)'
+    )
+    .single()
+}
+
+// ============================================================================
+// BULK MODERATION (POST /api/admin/comments/moderate)
+// ============================================================================
+// SCOPE: Pure persistence operations. Per-item rules (exists, pending-only, editor
+// ownership) are evaluated by route handler against the batch-loaded rows.
+// TRANSACTIONS: Each status group is one UPDATE. The status = 'pending' guard makes a
+// comment moderated concurrently drop out of the result instead of being overwritten.
+
+/**
+ * Get comments by IDs with basic fields (same shape as getCommentById)
+ * RESPONSIBILITY: Database read only. Missing IDs are simply absent from the result.
+ */
+export async function getCommentsByIds(commentIds: string[]) {
+  return supabase
+    .from('comments')
+    .select('id, post_id, author_id, content, status, created_at')
+    .in('id', commentIds)
+}
+
+/**
+ * Get posts for ownership verification in one query (see getPostForOwnershipCheck)
+ * RESPONSIBILITY: Database read only.
+ */
+export async function getPostsForOwnershipCheck(postIds: string[]) {
+  return supabase
+    .from('posts')
+    .select('id, author_id')
+    .in('id', postIds)
+}
+
+/**
+ * Set the same status on several pending comments
+ * RESPONSIBILITY: Database update only. Same approved_at rule as moderateComment.
+ * Only rows still pending are updated; returns the updated rows.
+ * SIDE EFFECT: posts.comment_count is adjusted by a database trigger per row.
+ */
+export async function moderateComments(
+  commentIds: string[],
   status: 'approved' | 'rejected' | 'spam'
 ) {
   const updateData: Record<string, unknown> = { status }
 
-  // Set approved_at timestamp when approving
   if (status === 'approved') {
     updateData.approved_at = new Date().toISOString()
   }
@@ -223,10 +391,146 @@ export async function moderateComment(
   return supabase
     .from('comments')
     .update(updateData)
-    .eq('id', commentId)
+    .in('id', commentIds)
+    .eq('status', 'pending')
     .select(
       'id, post_id, author_id, content, status, created_at, approved_at, users!author_id (id, email)'
     )
+}
+
+// ============================================================================
+// EDIT / DELETE OWN COMMENT (PATCH, DELETE /api/comments/{id})
+// ============================================================================
+// SCOPE: Pure persistence operations. Authorship, the edit window and allowed statuses
+// are enforced by route handler.
+// TRANSACTIONS: TODO - updateCommentContent -> createCommentRevision are separate
+// statements (same as post revisions); a failed revision insert loses the prior content.
+// hasCommentReplies -> deleteComment is check-then-act: a reply approved in between
+// is removed by the parent_comment_id cascade.
+
+export const DELETED_COMMENT_CONTENT = '[deleted]'
+
+export interface CommentRevisionData {
+  comment_id: string
+  content: string // content BEFORE the edit
+  created_by: string
+}
+
+const OWN_COMMENT_COLUMNS =
+  'id, post_id, author_id, content, status, parent_comment_id, created_at, approved_at, edited_at, deleted_at, users!author_id (id, email)'
+
+/**
+ * Minutes after submission during which the author may edit or delete a comment
+ * (COMMENT_EDIT_WINDOW_MINUTES, default 15)
+ */
+export function getCommentEditWindowMinutes(): number {
+  const minutes = parseInt(process.env.COMMENT_EDIT_WINDOW_MINUTES || '15', 10)
+  return isNaN(minutes) || minutes < 0 ? 15 : minutes
+}
+
+/**
+ * Fetch a comment for an author edit/delete
+ * AUTHORIZATION SUPPORT: Route compares author_id and created_at (edit window).
+ * RESPONSIBILITY: Database read only. Includes tombstones (deleted_at set); route rejects them.
+ */
+export async function getCommentForAuthor(commentId: string) {
+  return supabase
+    .from('comments')
+    .select('id, post_id, author_id, content, status, created_at, deleted_at')
+    .eq('id', commentId)
+    .maybeSingle()
+}
+
+/**
+ * Replace a comment's content and set edited_at
+ * RESPONSIBILITY: Database update only. Status is left unchanged (an approved comment
+ * stays visible, marked by edited_at); spam_score / spam_reasons are replaced with the
+ * signals for the new content.
+ * CONCURRENCY: Only applies while content still equals previousContent and the comment
+ * is not a tombstone; otherwise .single() fails with PGRST116.
+ */
+export async function updateCommentContent(
+  commentId: string,
+  previousContent: string,
+  content: string,
+  spam: { score: number; reasons: string[] }
+) {
+  return supabase
+    .from('comments')
+    .update({
+      content,
+      content_hash: hashCommentContent(content),
+      edited_at: new Date().toISOString(),
+      spam_score: spam.score,
+      spam_reasons: spam.reasons,
+    })
+    .eq('id', commentId)
+    .eq('content', previousContent)
+    .is('deleted_at', null)
+    .select(OWN_COMMENT_COLUMNS)
+    .single()
+}
+
+/**
+ * Keep the content an edit replaced
+ * RESPONSIBILITY: Database insert only. Callers pass the content BEFORE the edit.
+ */
+export async function createCommentRevision(data: CommentRevisionData) {
+  return supabase
+    .from('comment_revisions')
+    .insert({
+      comment_id: data.comment_id,
+      content: data.content,
+      created_by: data.created_by,
+    })
+}
+
+/**
+ * Check whether any comment (any status) replies to this one
+ * RESPONSIBILITY: Database count only. Route chooses tombstone vs hard delete.
+ */
+export async function hasCommentReplies(commentId: string) {
+  const { count, error } = await supabase
+    .from('comments')
+    .select('id', { count: 'exact', head: true })
+    .eq('parent_comment_id', commentId)
+
+  return { data: (count || 0) > 0, error }
+}
+
+/**
+ * Turn a comment into a "[deleted]" tombstone
+ * RESPONSIBILITY: Database update only. The row (and its status) is kept so replies
+ * still hang off it; formatters hide the author of tombstones.
+ * CONCURRENCY: No-op (PGRST116) if it is already a tombstone.
+ * SIDE EFFECT: posts.comment_count drops by a database trigger if the comment was approved.
+ */
+export async function tombstoneComment(commentId: string) {
+  return supabase
+    .from('comments')
+    .update({
+      content: DELETED_COMMENT_CONTENT,
+      content_hash: hashCommentContent(DELETED_COMMENT_CONTENT),
+      deleted_at: new Date().toISOString(),
+    })
+    .eq('id', commentId)
+    .is('deleted_at', null)
+    .select('id, deleted_at')
+    .single()
+}
+
+/**
+ * Permanently delete a comment without replies
+ * RESPONSIBILITY: Database delete only. Revisions go with it (on delete cascade).
+ * SIDE EFFECT: posts.comment_count is adjusted by a database trigger.
+ */
+export async function deleteComment(commentId: string) {
+  return supabase
+    .from('comments')
+    .delete()
+    .eq('id', commentId)
+    .is('deleted_at', null)
+    .select('id')
     .single()
 }
 
@@ -244,52 +548,106 @@ export async function moderateComment(
 // NOTE: Comment formatting varies by context (list vs moderation), hence multiple helpers.
 
 /**
- * Format comment for list response (top-level with replies)
+ * Group reply rows by parent_comment_id
+ * RESPONSIBILITY: Structural grouping only. Preserves input order within each group,
+ * so the oldest-first ordering from getApprovedReplyThreads() is kept.
+ */
+export function groupRepliesByParent(
+  replies: Array<Record<string, unknown>>
+): Map<string, Array<Record<string, unknown>>> {
+  const grouped = new Map<string, Array<Record<string, unknown>>>()
+
+  for (const reply of replies) {
+    const parentId = reply.parent_comment_id as string
+    const group = grouped.get(parentId)
+    if (group) {
+      group.push(reply)
+    } else {
+      grouped.set(parentId, [reply])
+    }
+  }
+
+  return grouped
+}
+
+/**
+ * Format comment for list/thread response (with nested replies)
  * RESPONSIBILITY: Structural transformation only. Builds response shape from:
  *   - Comment record (id, content, status, created_at)
  *   - Author details from joined users table
- *   - Nested replies array
+ *   - Reply rows grouped by parent (groupRepliesByParent), nested recursively
+ * TOMBSTONES: Comments deleted by their author (deleted_at set) keep their place in the
+ * thread with content "[deleted]", deleted: true and no author.
  * IDEMPOTENT: Pure function; same input always produces same output.
  */
 export function formatCommentWithReplies(
   comment: Record<string, unknown>,
-  replies: Array<Record<string, unknown>> = []
+  repliesByParent: Map<string, Array<Record<string, unknown>>> = new Map()
 ) {
   const commentUsers = comment.users as
     | Array<{ id: string; email: string }>
+    | { id: string; email: string }
     | undefined
-  const commentAuthor = Array.isArray(commentUsers) ? commentUsers[0] : undefined
+  const commentAuthor = Array.isArray(commentUsers) ? commentUsers[0] : commentUsers
+  const deleted = Boolean(comment.deleted_at)
 
   return {
     id: comment.id,
     post_id: comment.post_id,
     author: {
-      id: commentAuthor?.id || '',
-      email: commentAuthor?.email || '',
+      id: deleted ? '' : commentAuthor?.id || '',
+      email: deleted ? '' : commentAuthor?.email || '',
     },
     content: comment.content,
     status: comment.status,
     parent_comment_id: comment.parent_comment_id,
     created_at: comment.created_at,
-    replies: replies.map((reply) => {
-      const replyUsers = reply.users as
-        | Array<{ id: string; email: string }>
-        | undefined
-      const replyAuthor = Array.isArray(replyUsers) ? replyUsers[0] : undefined
-
-      return {
-        id: reply.id,
-        author: {
-          id: replyAuthor?.id || '',
-          email: replyAuthor?.email || '',
-        },
-        content: reply.content,
-        created_at: reply.created_at,
-      }
-    }),
+    edited_at: comment.edited_at ?? null,
+    deleted,
+    replies: formatReplies(comment.id as string, repliesByParent),
   }
 }
 
+interface FormattedReply {
+  id: unknown
+  parent_comment_id: unknown
+  author: { id: string; email: string }
+  content: unknown
+  created_at: unknown
+  edited_at: unknown
+  deleted: boolean
+  replies: FormattedReply[]
+  has_more_replies: boolean
+}
+
+/**
+ * Format the replies below one comment, recursively
+ * NOTE: Reply rows come from get_comment_threads (flat author_id / author_email columns).
+ */
+function formatReplies(
+  parentId: string,
+  repliesByParent: Map<string, Array<Record<string, unknown>>>
+): FormattedReply[] {
+  return (repliesByParent.get(parentId) || []).map((reply) => {
+    const deleted = Boolean(reply.deleted_at)
+
+    return {
+      id: reply.id,
+      parent_comment_id: reply.parent_comment_id,
+      author: {
+        id: deleted ? '' : (reply.author_id as string) || '',
+        email: deleted ? '' : (reply.author_email as string) || '',
+      },
+      content: reply.content,
+      created_at: reply.created_at,
+      edited_at: reply.edited_at ?? null,
+      deleted,
+      replies: formatReplies(reply.id as string, repliesByParent),
+      has_more_replies: Boolean(reply.has_more_replies),
+    }
+  })
+}
+
 /**
  * Format comment for moderation response (approved)
  * RESPONSIBILITY: Structural transformation only.
@@ -56,3 +56,54 @@ export function validateParentCommentId(parentId: unknown): {
 
   return { valid: true }
 }
+
+/**
+ * Reply nesting depth returned by comment list/thread endpoints
+ * Deeper branches are marked has_more_replies and loaded via GET /api/comments/{id}/thread
+ */
+export const DEFAULT_THREAD_DEPTH = 3
+export const MAX_THREAD_DEPTH = 10
+
+/**
+ * Parse max_depth query parameter
+ * Lenient like page/limit on the comment list: invalid values fall back to the
+ * default and values above MAX_THREAD_DEPTH are capped.
+ * @param param - Raw max_depth query parameter (or null)
+ * @returns Depth between 1 and MAX_THREAD_DEPTH
+ */
+export function parseThreadDepth(param: string | null): number {
+  if (!param) {
+    return DEFAULT_THREAD_DEPTH
+  }
+
+  const parsed = parseInt(param, 10)
+  if (isNaN(parsed) || parsed < 1) {
+    return DEFAULT_THREAD_DEPTH
+  }
+
+  return Math.min(parsed, MAX_THREAD_DEPTH)
+}
+
+/**
+ * Validate optional moderation reason (stored in the moderation audit log)
+ * @param reason - Reason from the moderation request body
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateModerationReason(reason: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (reason === undefined || reason === null) {
+    return { valid: true } // Reason is optional
+  }
+
+  if (typeof reason !== 'string') {
+    return { valid: false, error: 'Reason must be a string' }
+  }
+
+  if (reason.length > 500) {
+    return { valid: false, error: 'Reason must be 500 characters or less' }
+  }
+
+  return { valid: true }
+}
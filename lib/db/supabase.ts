@@ -20,16 +20,20 @@ export interface Post {
   slug: string
   content: string
   author_id: string
-  status: 'draft' | 'published' | 'archived'
+  status: 'draft' | 'scheduled' | 'published' | 'archived'
+  publish_at: string | null
   published_at: string | null
   created_at: string
   updated_at: string
+  deleted_at: string | null
+  comment_count: number
 }
 
 export interface Category {
   id: string
   name: string
   slug: string
+  parent_id: string | null
   is_active: boolean
 }
 
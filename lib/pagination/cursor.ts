@@ -0,0 +1,103 @@
+// Keyset (cursor) pagination utilities
+// Encodes and decodes opaque cursors for stable paging over (timestamp, id)
+
+/**
+ * Position of the last item on a page
+ * value: sort timestamp (published_at for posts, created_at for comments)
+ * id: row id, used as tie-breaker when timestamps are equal
+ */
+export interface KeysetCursor {
+  value: string
+  id: string
+}
+
+/**
+ * Timestamps as PostgREST returns them, e.g. 2024-12-16T10:35:00.123456+00:00
+ * Anything looser (Date.parse accepts far more) could smuggle PostgREST filter syntax
+ * into keysetFilter, so cursor values must match this exactly.
+ */
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Whether a cursor position is safe to interpolate into a filter
+ */
+function isValidPosition(value: unknown, id: unknown): boolean {
+  return (
+    typeof value === 'string' &&
+    ISO_TIMESTAMP_REGEX.test(value) &&
+    !isNaN(Date.parse(value)) &&
+    typeof id === 'string' &&
+    UUID_REGEX.test(id)
+  )
+}
+
+interface CursorPayload {
+  k: string // list kind, e.g. 'posts' or 'comments'
+  s: 'asc' | 'desc' // sort order the cursor was issued for
+  v: string
+  i: string
+}
+
+/**
+ * Encode a cursor as an opaque base64url string
+ * @param kind - List the cursor belongs to (prevents reuse across endpoints)
+ * @param sortOrder - Sort order of the list (prevents reuse across sort orders)
+ * @param position - Sort value and id of the last item returned
+ */
+export function encodeCursor(
+  kind: string,
+  sortOrder: 'asc' | 'desc',
+  position: KeysetCursor
+): string {
+  const payload: CursorPayload = { k: kind, s: sortOrder, v: position.value, i: position.id }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+/**
+ * Decode a cursor issued by encodeCursor
+ * @returns Cursor position, or null if the cursor is malformed or was issued
+ * for a different list / sort order
+ */
+export function decodeCursor(
+  cursor: string,
+  kind: string,
+  sortOrder: 'asc' | 'desc'
+): KeysetCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as CursorPayload
+
+    if (payload.k !== kind || payload.s !== sortOrder) {
+      return null
+    }
+
+    if (!isValidPosition(payload.v, payload.i)) {
+      return null
+    }
+
+    return { value: payload.v, id: payload.i }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build a PostgREST or() filter selecting rows strictly after a cursor
+ * desc: column < value OR (column = value AND id < cursor.id)
+ * asc:  column > value OR (column = value AND id > cursor.id)
+ * Values are double-quoted because timestamps contain ':' and '.'. The position is
+ * re-checked here so a cursor that did not come from decodeCursor cannot inject filters.
+ */
+export function keysetFilter(
+  column: string,
+  sortOrder: 'asc' | 'desc',
+  cursor: KeysetCursor
+): string {
+  if (!isValidPosition(cursor.value, cursor.id)) {
+    throw new Error('Invalid keyset cursor position')
+  }
+
+  const op = sortOrder === 'asc' ? 'gt' : 'lt'
+  return `${column}.${op}."${cursor.value}",and(${column}.eq."${cursor.value}",id.${op}.${cursor.id})`
+}
@@ -0,0 +1,106 @@
+// Line-level diff utilities for post revisions
+// Computes a longest-common-subsequence diff between two texts (bounded size)
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed'
+  line: string
+}
+
+/**
+ * Largest changed region (lines before x lines after, once the shared prefix and
+ * suffix are stripped) the LCS table is built for. 4M cells = 16 MB of Uint32.
+ */
+export const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * Diff two texts line by line
+ * Lines present only in `before` are 'removed', only in `after` are 'added'.
+ * Removed lines are emitted before added lines within a changed hunk.
+ * Unchanged leading and trailing lines are matched directly; only the changed middle
+ * goes through the LCS table, which is refused above MAX_DIFF_CELLS.
+ * @param before - Older text
+ * @param after - Newer text
+ * @returns Ordered list of diff lines, or null if the changed region is too large
+ */
+export function diffLines(before: string, after: string): DiffLine[] | null {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // Shared prefix / suffix need no table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const n = endA - start
+  const m = endB - start
+  if (n * m > MAX_DIFF_CELLS) {
+    return null
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map((line) => ({ type: 'equal' as const, line }))
+
+  // lcs[i * (m + 1) + j] = length of LCS of the middle a[i..] and b[j..]
+  const width = m + 1
+  const lcs = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      result.push({ type: 'equal', line: a[start + i] })
+      i++
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ type: 'removed', line: a[start + i] })
+      i++
+    } else {
+      result.push({ type: 'added', line: b[start + j] })
+      j++
+    }
+  }
+  while (i < n) {
+    result.push({ type: 'removed', line: a[start + i++] })
+  }
+  while (j < m) {
+    result.push({ type: 'added', line: b[start + j++] })
+  }
+
+  for (const line of a.slice(endA)) {
+    result.push({ type: 'equal', line })
+  }
+
+  return result
+}
+
+/**
+ * Diff two id lists as sets
+ * @returns ids only in `after` (added) and only in `before` (removed)
+ */
+export function diffIds(before: string[], after: string[]): {
+  added: string[]
+  removed: string[]
+} {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+
+  return {
+    added: after.filter((id) => !beforeSet.has(id)),
+    removed: before.filter((id) => !afterSet.has(id)),
+  }
+}
@@ -2,6 +2,8 @@
 // Handles all database operations for posts CRUD
 
 import { supabase } from '../db/supabase'
+import { buildTsQuery, buildSubstringPattern } from '../search/query'
+import { KeysetCursor, keysetFilter } from '../pagination/cursor'
 
 /**
  * Type definitions for post operations
@@ -29,10 +31,12 @@ export interface PostWithRelations {
   slug: string
   content: string
   author_id: string
-  status: 'draft' | 'published' | 'archived'
+  status: 'draft' | 'scheduled' | 'published' | 'archived'
+  publish_at: string | null
   published_at: string | null
   created_at: string
   updated_at: string
+  deleted_at?: string | null
   categories?: Array<{ id: string; name: string; slug: string }>
   tags?: Array<{ id: string; name: string; slug: string }>
 }
@@ -105,12 +109,14 @@ export async function linkTagsToPost(postId: string, tagIds: string[]) {
 /**
  * Fetch post by ID for publishing verification
  * RESPONSIBILITY: Database read only. Route validates post.status = 'draft' before publishing.
+ * NOTE: Soft-deleted posts are excluded (see getDeletedPostById).
  */
 export async function getPostById(postId: string) {
   return supabase
     .from('posts')
     .select('*')
     .eq('id', postId)
+    .is('deleted_at', null)
     .single()
 }
 
@@ -118,6 +124,8 @@ export async function getPostById(postId: string) {
  * Check if slug exists (for uniqueness enforcement)
  * RESPONSIBILITY: Database read only. Returns minimal data (id, slug, status) for
  * route to determine if slug collision occurred during publish.
+ * SCOPE: Only live published posts hold a slug (mirrors the posts_slug_unique partial
+ * index); archived and soft-deleted posts release theirs.
  * AUTHORIZATION: No auth checks here; route validates publish permissions before calling.
  */
 export async function getPostBySlug(slug: string) {
@@ -125,59 +133,448 @@ export async function getPostBySlug(slug: string) {
     .from('posts')
     .select('id, slug, status')
     .eq('slug', slug)
+    .eq('status', 'published')
+    .is('deleted_at', null)
     .single()
 }
 
 /**
  * Publish draft post
  * RESPONSIBILITY: Database update only. Does NOT validate:
- *   - Current post status (must be draft) - checked by route
+ *   - Current post status (must be draft or scheduled) - checked by route
  *   - Post ownership (editor vs admin) - checked by route
  *   - Slug uniqueness - validated by route before calling
  *   - Content validity (>= 100 chars, has categories) - validated by route
  * IDEMPOTENCY: Not idempotent; calling twice changes published_at. Route prevents this.
+ * @param publishedAt - Defaults to now; the scheduler passes the scheduled publish_at
  */
 export async function publishPost(
   postId: string,
-  slug: string
+  slug: string,
+  publishedAt: string = new Date().toISOString()
 ) {
   return supabase
     .from('posts')
     .update({
       status: 'published',
       slug,
-      published_at: new Date().toISOString(),
+      publish_at: null,
+      publish_attempted_at: null,
+      published_at: publishedAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .select(
+      'id, title, slug, content, author_id, status, published_at, created_at, updated_at'
+    )
+    .single()
+}
+
+// ============================================================================
+// SCHEDULED PUBLISHING
+// ============================================================================
+// SCOPE: Pure persistence operations. The publish route schedules posts; the worker in
+// lib/posts/scheduler.ts publishes them once publish_at has passed. Publish checks
+// (content, categories, slug) are run by callers via checkPublishable().
+// CONCURRENCY: publishScheduledPost only matches rows still in 'scheduled' status, so two
+// overlapping worker runs cannot publish the same post twice.
+
+/**
+ * Move a draft (or already scheduled) post into the scheduled state
+ * RESPONSIBILITY: Database update only. Route validates publish_at is in the future.
+ */
+export async function schedulePost(postId: string, publishAt: string) {
+  return supabase
+    .from('posts')
+    .update({
+      status: 'scheduled',
+      publish_at: publishAt,
+      publish_attempted_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .select(
+      'id, title, slug, content, author_id, status, publish_at, published_at, created_at, updated_at'
+    )
+    .single()
+}
+
+/**
+ * List scheduled posts whose publish_at has passed
+ * ORDER: Never attempted first (oldest publish_at first), then least recently failed,
+ * so posts that keep failing with transient errors rotate to the back of the queue.
+ * RESPONSIBILITY: Database query only.
+ */
+export async function listDueScheduledPosts(now: string, limit: number) {
+  return supabase
+    .from('posts')
+    .select('id, title, slug, content, author_id, status, publish_at')
+    .eq('status', 'scheduled')
+    .is('deleted_at', null)
+    .lte('publish_at', now)
+    .order('publish_attempted_at', { ascending: true, nullsFirst: true })
+    .order('publish_at', { ascending: true })
+    .limit(limit)
+}
+
+/**
+ * Record a failed (transient) publish attempt on a scheduled post (worker only)
+ * RESPONSIBILITY: Database update only. Guarded on status = 'scheduled'.
+ */
+export async function markScheduledPublishAttempt(postId: string, attemptedAt: string) {
+  return supabase
+    .from('posts')
+    .update({ publish_attempted_at: attemptedAt })
+    .eq('id', postId)
+    .eq('status', 'scheduled')
+}
+
+/**
+ * Publish a scheduled post (worker only)
+ * RESPONSIBILITY: Database update only. Guarded on status = 'scheduled'; returns
+ * no row (PGRST116) when another run already published or unscheduled the post.
+ */
+export async function publishScheduledPost(postId: string, slug: string, publishedAt: string) {
+  return supabase
+    .from('posts')
+    .update({
+      status: 'published',
+      slug,
+      publish_at: null,
+      publish_attempted_at: null,
+      published_at: publishedAt,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .eq('status', 'scheduled')
+    .select(
+      'id, title, slug, content, author_id, status, published_at, created_at, updated_at'
+    )
+    .single()
+}
+
+/**
+ * Return a scheduled post to draft (worker only)
+ * RESPONSIBILITY: Database update only. Used when a due post no longer passes
+ * publish checks, so it stops being retried and the author can fix it.
+ */
+export async function unschedulePost(postId: string) {
+  return supabase
+    .from('posts')
+    .update({
+      status: 'draft',
+      publish_at: null,
+      publish_attempted_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .eq('status', 'scheduled')
+}
+
+// ============================================================================
+// ARCHIVE / DELETE LIFECYCLE
+// ============================================================================
+// SCOPE: Pure persistence operations. Status transitions (published <-> archived),
+// ownership and the restore window are enforced by route handlers.
+// SLUGS: Archived and soft-deleted posts fall outside the posts_slug_unique partial index,
+// so their slug is free for other posts; unarchive/restore keep it when still free
+// (slugForRepublish / slugForRestore in lib/posts/slug.ts).
+
+/**
+ * Days a soft-deleted post can still be restored (POST_RESTORE_WINDOW_DAYS, default 30)
+ */
+export function getRestoreWindowDays(): number {
+  const days = parseInt(process.env.POST_RESTORE_WINDOW_DAYS || '30', 10)
+  return isNaN(days) || days < 0 ? 30 : days
+}
+
+/**
+ * Archive a published post
+ * RESPONSIBILITY: Database update only. Guarded on status = 'published';
+ * returns no row (PGRST116) if the post changed status concurrently.
+ */
+export async function archivePost(postId: string) {
+  return supabase
+    .from('posts')
+    .update({
+      status: 'archived',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .eq('status', 'published')
+    .select(
+      'id, title, slug, content, author_id, status, published_at, created_at, updated_at'
+    )
+    .single()
+}
+
+/**
+ * Return an archived post to published
+ * RESPONSIBILITY: Database update only. Keeps the original published_at.
+ * Route re-runs publish checks and resolves a free slug before calling.
+ */
+export async function unarchivePost(postId: string, slug: string) {
+  return supabase
+    .from('posts')
+    .update({
+      status: 'published',
+      slug,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', postId)
+    .eq('status', 'archived')
+    .select(
+      'id, title, slug, content, author_id, status, published_at, created_at, updated_at'
+    )
+    .single()
+}
+
+/**
+ * Soft-delete a post
+ * RESPONSIBILITY: Database update only. Status is preserved so restore can
+ * return the post to where it was.
+ */
+export async function softDeletePost(postId: string) {
+  return supabase
+    .from('posts')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', postId)
+    .is('deleted_at', null)
+    .select('id, status, deleted_at')
+    .single()
+}
+
+/**
+ * Fetch a soft-deleted post by ID
+ * RESPONSIBILITY: Database read only. Used by the restore route.
+ */
+export async function getDeletedPostById(postId: string) {
+  return supabase
+    .from('posts')
+    .select('*')
+    .eq('id', postId)
+    .not('deleted_at', 'is', null)
+    .single()
+}
+
+/**
+ * Undo a soft delete
+ * RESPONSIBILITY: Database update only. Route validates the restore window and
+ * resolves a free slug for published posts before calling.
+ */
+export async function restoreDeletedPost(postId: string, slug: string) {
+  return supabase
+    .from('posts')
+    .update({
+      deleted_at: null,
+      slug,
       updated_at: new Date().toISOString(),
     })
     .eq('id', postId)
+    .not('deleted_at', 'is', null)
+    .select(
+      'id, title, slug, content, author_id, status, published_at, created_at, updated_at'
+    )
+    .single()
+}
+
+// ============================================================================
+// UPDATE POST
+// ============================================================================
+// SCOPE: Pure persistence operations. Business rules (editable status, ownership,
+// field validation, category/tag existence, slug uniqueness) are enforced by route handler.
+// TRANSACTIONS: TODO - updatePost + replacePostCategories + replacePostTags should run
+// in a single transaction in v2 so a failed relink cannot leave a partial edit.
+
+export interface PostUpdateData {
+  title?: string
+  content?: string
+  slug?: string
+}
+
+/**
+ * Update editable post fields
+ * RESPONSIBILITY: Database update only. Only provided fields are written;
+ * updated_at is always refreshed. Status and published_at are never changed here.
+ */
+export async function updatePost(postId: string, data: PostUpdateData) {
+  const updateData: Record<string, unknown> = {
+    updated_at: new Date().toISOString(),
+  }
+
+  if (data.title !== undefined) updateData.title = data.title
+  if (data.content !== undefined) updateData.content = data.content
+  if (data.slug !== undefined) updateData.slug = data.slug
+
+  return supabase
+    .from('posts')
+    .update(updateData)
+    .eq('id', postId)
     .select(
       'id, title, slug, content, author_id, status, published_at, created_at, updated_at'
     )
     .single()
 }
 
+/**
+ * Replace all category links of a post
+ * RESPONSIBILITY: Delete existing links, then insert the new set.
+ * No validation (route validates category existence before calling).
+ */
+export async function replacePostCategories(postId: string, categoryIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from('post_categories')
+    .delete()
+    .eq('post_id', postId)
+
+  if (deleteError) {
+    return { data: null, error: deleteError }
+  }
+
+  return linkCategoriesToPost(postId, categoryIds)
+}
+
+/**
+ * Replace all tag links of a post
+ * RESPONSIBILITY: Delete existing links, then insert the new set.
+ * No validation (route validates tag existence before calling).
+ */
+export async function replacePostTags(postId: string, tagIds: string[]) {
+  const { error: deleteError } = await supabase
+    .from('post_tags')
+    .delete()
+    .eq('post_id', postId)
+
+  if (deleteError) {
+    return { data: null, error: deleteError }
+  }
+
+  return linkTagsToPost(postId, tagIds)
+}
+
+/**
+ * Fetch category_ids linked to a post
+ * RESPONSIBILITY: Database read only.
+ */
+export async function getPostCategoryIds(postId: string) {
+  return supabase
+    .from('post_categories')
+    .select('category_id')
+    .eq('post_id', postId)
+}
+
+/**
+ * Fetch tag_ids linked to a post
+ * RESPONSIBILITY: Database read only.
+ */
+export async function getPostTagIds(postId: string) {
+  return supabase
+    .from('post_tags')
+    .select('tag_id')
+    .eq('post_id', postId)
+}
+
+/**
+ * Remember a slug a published post no longer uses
+ * RESPONSIBILITY: Database upsert only. Lets resolvePostIdBySlug resolve
+ * links that were shared before the title (and slug) changed.
+ * IDEMPOTENT: Re-recording the same slug for the same post is a no-op.
+ */
+export async function recordPreviousSlug(postId: string, slug: string) {
+  return supabase
+    .from('post_slug_history')
+    .upsert({ slug, post_id: postId }, { onConflict: 'slug' })
+}
+
 // ============================================================================
 // LIST PUBLISHED POSTS (C3.3)
 // ============================================================================
-// SCOPE: Pure persistence operations. Filtering (category, tag, search), sorting validation,
-// and pagination bounds are enforced by route handler.
+// SCOPE: Pure persistence operations. Sorting validation and pagination bounds are
+// enforced by route handler. Filters (category, tag, search) are applied in the database
+// so pages are full and counts match the filtered result set.
 // TRANSACTIONS: Not needed; reads are non-critical and pagination is stateless.
 
+export type PublishedPostSort = 'newest' | 'oldest' | 'most_commented'
+
+export interface PublishedPostFilters {
+  categorySlug?: string | null
+  /** Match any of these categories (category + descendants); takes precedence over categorySlug */
+  categoryIds?: string[] | null
+  tagSlug?: string | null
+  search?: string | null
+}
+
+/**
+ * Build a published-posts query with filters applied
+ * RESPONSIBILITY: Query construction only. Category/tag filters use aliased !inner
+ * embeds (category_filter / tag_filter) so the regular post_categories / post_tags
+ * embeds still return ALL of a post's links, not just the matching one.
+ */
+function publishedPostsQuery(
+  columns: string,
+  filters: PublishedPostFilters,
+  options?: { count?: 'exact'; head?: boolean }
+) {
+  const filterJoins: string[] = []
+  if (filters.categoryIds) {
+    filterJoins.push('category_filter:post_categories!inner(category_id)')
+  } else if (filters.categorySlug) {
+    filterJoins.push('category_filter:post_categories!inner(categories!inner(slug))')
+  }
+  if (filters.tagSlug) {
+    filterJoins.push('tag_filter:post_tags!inner(tags!inner(slug))')
+  }
+
+  let query = supabase
+    .from('posts')
+    .select([columns, ...filterJoins].join(','), options)
+    .eq('status', 'published')
+    .is('deleted_at', null)
+
+  if (filters.categoryIds) {
+    query = query.in('category_filter.category_id', filters.categoryIds)
+  } else if (filters.categorySlug) {
+    query = query.eq('category_filter.categories.slug', filters.categorySlug)
+  }
+
+  if (filters.tagSlug) {
+    query = query.eq('tag_filter.tags.slug', filters.tagSlug.toLowerCase())
+  }
+
+  if (filters.search) {
+    // Same tsvector/tsquery as GET /api/search (prefix words, "quoted phrases")
+    const tsQuery = buildTsQuery(filters.search)
+    if (tsQuery) {
+      query = query.textSearch('search_vector', tsQuery, { config: 'english' })
+    }
+  }
+
+  return query
+}
+
 /**
  * List published posts with pagination
- * Returns posts with author, categories, and tags
+ * Returns posts with author, categories, tags and approved comment_count
  * RESPONSIBILITY: Database query only. Fetches raw data including relationships.
- * NOTE: Route handler applies client-side filtering (category/tag matching).
+ * FILTERING: category (slug), tag (slug, case-insensitive) and search (full-text match
+ * on search_vector) are applied in the query, before pagination.
+ * SORTING: newest / oldest order by (published_at, id); most_commented orders by the
+ * comment_count counter column, then newest first.
+ * KEYSET: When a cursor is given, only posts strictly after (published_at, id) are
+ * returned; route passes offset 0 in that case. Not supported for most_commented
+ * (route rejects it), since comment_count is not part of the key.
  */
 export async function listPublishedPosts(
   offset: number,
   limit: number,
-  sortOrder: 'asc' | 'desc'
+  sort: PublishedPostSort,
+  filters: PublishedPostFilters = {},
+  cursor: KeysetCursor | null = null
 ) {
-  return supabase
-    .from('posts')
-    .select(
-      `
+  const sortOrder: 'asc' | 'desc' = sort === 'oldest' ? 'asc' : 'desc'
+
+  let query = publishedPostsQuery(
+    `
       id,
       title,
       slug,
@@ -187,6 +584,7 @@ export async function listPublishedPosts(
       published_at,
       created_at,
       updated_at,
+      comment_count,
       users!author_id (id, email),
       post_categories (
         category_id,
@@ -196,21 +594,29 @@ export async function listPublishedPosts(
         tag_id,
         tags (id, name, slug)
       )
-      `
-    )
-    .eq('status', 'published')
+    `,
+    filters
+  )
+
+  if (cursor) {
+    query = query.or(keysetFilter('published_at', sortOrder, cursor))
+  }
+
+  if (sort === 'most_commented') {
+    query = query.order('comment_count', { ascending: false })
+  }
+
+  return query
     .order('published_at', { ascending: sortOrder === 'asc' })
+    .order('id', { ascending: sortOrder === 'asc' })
     .range(offset, offset + limit - 1)
 }
 
 /**
- * Get total count of published posts
+ * Get total count of published posts matching the same filters as listPublishedPosts
  */
-export async function countPublishedPosts() {
-  return supabase
-    .from('posts')
-    .select('id', { count: 'exact', head: true })
-    .eq('status', 'published')
+export async function countPublishedPosts(filters: PublishedPostFilters = {}) {
+  return publishedPostsQuery('id', filters, { count: 'exact', head: true })
 }
 
 // ============================================================================
@@ -237,6 +643,7 @@ export async function getPublishedPostById(postId: string) {
       published_at,
       created_at,
       updated_at,
+      comment_count,
       users!author_id (id, email),
       post_categories (
         category_id,
@@ -250,23 +657,17 @@ export async function getPublishedPostById(postId: string) {
     )
     .eq('id', postId)
     .eq('status', 'published')
+    .is('deleted_at', null)
     .single()
 }
 
-// ============================================================================
-// GET PUBLISHED POST BY SLUG (C3.4 - DEPRECATED)
-// ============================================================================
-// SCOPE: Pure persistence operations. Public read; no auth checks needed.
-// NOTE: This function is kept for backwards compatibility but should be replaced
-// with getPublishedPostById in all new code.
-
 /**
- * Fetch single published post by slug with all relationships
+ * Fetch single post by ID with all relationships, whatever its status
  * RESPONSIBILITY: Database read only. Includes author, categories, and tags.
- * NOTE: Route applies response formatting via formatPostResponse().
- * @deprecated Use getPublishedPostById instead
+ * AUTHORIZATION: No auth checks here; route only returns non-published posts
+ * to their author or an admin.
  */
-export async function getPublishedPostBySlug(slug: string) {
+export async function getPostDetailById(postId: string) {
   return supabase
     .from('posts')
     .select(
@@ -277,9 +678,11 @@ export async function getPublishedPostBySlug(slug: string) {
       content,
       author_id,
       status,
+      publish_at,
       published_at,
       created_at,
       updated_at,
+      comment_count,
       users!author_id (id, email),
       post_categories (
         category_id,
@@ -291,9 +694,57 @@ export async function getPublishedPostBySlug(slug: string) {
       )
       `
     )
+    .eq('id', postId)
+    .is('deleted_at', null)
+    .maybeSingle()
+}
+
+// ============================================================================
+// RESOLVE POST SLUG (C3.4)
+// ============================================================================
+// SCOPE: Pure persistence operations. Public read; GET /api/posts/{id} accepts a slug in
+// place of the id and fetches the post by id afterwards (visibility is checked there).
+
+/**
+ * Find which post a retired slug belonged to
+ * RESPONSIBILITY: Database read only. Returns null data (no error) if the slug was
+ * never retired. Also used by findUniqueSlug so retired slugs are not handed out again.
+ */
+export async function getSlugHistoryOwner(slug: string) {
+  return supabase
+    .from('post_slug_history')
+    .select('post_id')
+    .eq('slug', slug)
+    .maybeSingle()
+}
+
+/**
+ * Resolve a slug to the id of the post that answers to it
+ * RESPONSIBILITY: Database reads only. The live slug of a published post wins; otherwise
+ * slugs retired by title edits (post_slug_history) resolve to their post, so links
+ * shared before a retitle keep working.
+ * @returns Post id, or null data (no error) if no post answers to the slug
+ */
+export async function resolvePostIdBySlug(slug: string) {
+  const { data: current, error } = await supabase
+    .from('posts')
+    .select('id')
     .eq('slug', slug)
     .eq('status', 'published')
-    .single()
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) {
+    return { data: null, error }
+  }
+
+  if (current) {
+    return { data: current.id as string, error: null }
+  }
+
+  const { data: previous, error: historyError } = await getSlugHistoryOwner(slug)
+
+  return { data: (previous?.post_id as string | undefined) ?? null, error: historyError }
 }
 
 // ============================================================================
@@ -337,6 +788,10 @@ export function formatPostResponse(
     updated_at: post.updated_at,
   }
 
+  if (post.publish_at !== undefined) {
+    response.publish_at = post.publish_at
+  }
+
   if (includeAuthor && author) {
     response.author = {
       id: author.id,
@@ -371,29 +826,275 @@ export function formatPostResponse(
   return response
 }
 
+// ============================================================================
+// LIST AUTHOR'S OWN POSTS (GET /api/me/posts)
+// ============================================================================
+// SCOPE: Pure persistence operations. The author id always comes from the
+// authenticated user (route), never from the query string.
+// TRANSACTIONS: Not needed; reads are non-critical and pagination is stateless.
+
+export type PostStatus = PostWithRelations['status']
+
+export interface AuthorPostFilters {
+  statuses?: PostStatus[] | null
+  search?: string | null
+}
+
+/**
+ * Build an author-scoped posts query with filters applied
+ * RESPONSIBILITY: Query construction only. Soft-deleted posts are excluded.
+ */
+function authorPostsQuery(
+  authorId: string,
+  columns: string,
+  filters: AuthorPostFilters,
+  options?: { count?: 'exact'; head?: boolean }
+) {
+  let query = supabase
+    .from('posts')
+    .select(columns, options)
+    .eq('author_id', authorId)
+    .is('deleted_at', null)
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    query = query.in('status', filters.statuses)
+  }
+
+  if (filters.search) {
+    const tsQuery = buildTsQuery(filters.search)
+    if (tsQuery) {
+      query = query.textSearch('search_vector', tsQuery, { config: 'english' })
+    }
+  }
+
+  return query
+}
+
+/**
+ * List one author's posts (drafts, scheduled, published, archived), newest first
+ * RESPONSIBILITY: Database query only. Ordered by (created_at, id) descending.
+ */
+export async function listPostsByAuthor(
+  authorId: string,
+  offset: number,
+  limit: number,
+  filters: AuthorPostFilters = {}
+) {
+  return authorPostsQuery(
+    authorId,
+    'id, title, slug, status, publish_at, published_at, created_at, updated_at, comment_count',
+    filters
+  )
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1)
+}
+
+/**
+ * Get total count of an author's posts matching the same filters as listPostsByAuthor
+ */
+export async function countPostsByAuthor(authorId: string, filters: AuthorPostFilters = {}) {
+  return authorPostsQuery(authorId, 'id', filters, { count: 'exact', head: true })
+}
+
 // ============================================================================
 // LIST ALL POSTS (ADMIN) (C2 - E6)
 // ============================================================================
 // SCOPE: Pure persistence operations. No authorization checks here.
 // Authorization (admin-only) is enforced by route handler in app/api/admin/posts/route.ts
+// Filter/sort validation and pagination bounds are enforced by route handler.
+// TRANSACTIONS: Not needed; reads are non-critical and pagination is stateless.
+
+export type AdminPostSort = 'created_at' | 'published_at' | 'updated_at'
+
+export interface AdminPostFilters {
+  statuses?: PostStatus[] | null
+  authorId?: string | null
+  categorySlug?: string | null
+  /** Inclusive lower / upper bounds on created_at (ISO timestamps) */
+  createdFrom?: string | null
+  createdTo?: string | null
+  /** Case-insensitive substring match on title */
+  titleSearch?: string | null
+  /** true = only soft-deleted posts (restore view), otherwise only live posts */
+  deleted?: boolean | null
+}
+
+/**
+ * Build an admin posts query with filters applied
+ * RESPONSIBILITY: Query construction only. Same aliased !inner category embed as
+ * publishedPostsQuery, so filtering does not change the selected columns.
+ */
+function adminPostsQuery(
+  columns: string,
+  filters: AdminPostFilters,
+  options?: { count?: 'exact'; head?: boolean }
+) {
+  const filterJoins: string[] = []
+  if (filters.categorySlug) {
+    filterJoins.push('category_filter:post_categories!inner(categories!inner(slug))')
+  }
+
+  let query = supabase
+    .from('posts')
+    .select([columns, ...filterJoins].join(','), options)
+
+  query = filters.deleted
+    ? query.not('deleted_at', 'is', null)
+    : query.is('deleted_at', null)
+
+  if (filters.statuses && filters.statuses.length > 0) {
+    query = query.in('status', filters.statuses)
+  }
+
+  if (filters.authorId) {
+    query = query.eq('author_id', filters.authorId)
+  }
+
+  if (filters.categorySlug) {
+    query = query.eq('category_filter.categories.slug', filters.categorySlug)
+  }
+
+  if (filters.createdFrom) {
+    query = query.gte('created_at', filters.createdFrom)
+  }
+
+  if (filters.createdTo) {
+    query = query.lte('created_at', filters.createdTo)
+  }
+
+  if (filters.titleSearch) {
+    query = query.filter('title', 'imatch', buildSubstringPattern(filters.titleSearch))
+  }
+
+  return query
+}
 
 /**
- * Fetch all posts for admin management (draft + published + archived)
+ * Fetch a page of posts for admin management (draft + scheduled + published + archived)
+ * Soft-deleted posts are listed only when filters.deleted is set.
  * RESPONSIBILITY: Database read only. No business logic.
  * AUTHORIZATION: No auth checks here; route validates admin role before calling.
+ * SORTING: By the given column, then id; posts never published sort last on published_at.
  */
-export async function listAllPostsForAdmin() {
-  return supabase
-    .from('posts')
-    .select(
-      `
+export async function listAllPostsForAdmin(
+  offset: number,
+  limit: number,
+  sort: AdminPostSort = 'created_at',
+  order: 'asc' | 'desc' = 'desc',
+  filters: AdminPostFilters = {}
+) {
+  return adminPostsQuery(
+    `
       id,
       title,
+      slug,
       status,
       created_at,
+      updated_at,
+      publish_at,
       published_at,
+      deleted_at,
       users!author_id (id, email)
-      `
+    `,
+    filters
+  )
+    .order(sort, { ascending: order === 'asc', nullsFirst: false })
+    .order('id', { ascending: order === 'asc' })
+    .range(offset, offset + limit - 1)
+}
+
+/**
+ * Get total count of posts matching the same filters as listAllPostsForAdmin
+ */
+export async function countAllPostsForAdmin(filters: AdminPostFilters = {}) {
+  return adminPostsQuery('id', filters, { count: 'exact', head: true })
+}
+
+// ============================================================================
+// POST REVISIONS
+// ============================================================================
+// SCOPE: Pure persistence operations. Revisions are append-only snapshots of a post's
+// editable state (title, content, category_ids, tag_ids) written by the create, edit,
+// publish and restore routes. Authorization is enforced by route handlers.
+// TRANSACTIONS: TODO - revision_number is computed as max + 1; concurrent writers on the
+// same post are caught by the (post_id, revision_number) unique constraint, not retried.
+
+export type RevisionEvent = 'created' | 'edited' | 'published' | 'restored'
+
+export interface PostRevisionData {
+  post_id: string
+  title: string
+  content: string
+  category_ids: string[]
+  tag_ids: string[]
+  event: RevisionEvent
+  created_by: string | null // null when written by the scheduler
+}
+
+const REVISION_COLUMNS =
+  'id, post_id, revision_number, title, content, category_ids, tag_ids, event, created_by, created_at'
+
+/**
+ * Append a revision snapshot for a post
+ * RESPONSIBILITY: Database read (latest revision_number) + insert only.
+ * Callers pass the post state AFTER the change has been applied.
+ */
+export async function createPostRevision(data: PostRevisionData) {
+  const { data: latest, error: latestError } = await supabase
+    .from('post_revisions')
+    .select('revision_number')
+    .eq('post_id', data.post_id)
+    .order('revision_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latestError) {
+    return { data: null, error: latestError }
+  }
+
+  return supabase
+    .from('post_revisions')
+    .insert({
+      post_id: data.post_id,
+      revision_number: (latest?.revision_number || 0) + 1,
+      title: data.title,
+      content: data.content,
+      category_ids: data.category_ids,
+      tag_ids: data.tag_ids,
+      event: data.event,
+      created_by: data.created_by,
+    })
+    .select(REVISION_COLUMNS)
+    .single()
+}
+
+/**
+ * List revisions of a post, newest first
+ * RESPONSIBILITY: Database query only. Content is omitted; fetch a single
+ * revision (or a diff) to see it.
+ */
+export async function listPostRevisions(postId: string, offset: number, limit: number) {
+  return supabase
+    .from('post_revisions')
+    .select(
+      'id, post_id, revision_number, title, event, created_by, created_at',
+      { count: 'exact' }
     )
-    .order('created_at', { ascending: false })
+    .eq('post_id', postId)
+    .order('revision_number', { ascending: false })
+    .range(offset, offset + limit - 1)
+}
+
+/**
+ * Fetch a single revision by its per-post revision number
+ * RESPONSIBILITY: Database read only.
+ */
+export async function getPostRevision(postId: string, revisionNumber: number) {
+  return supabase
+    .from('post_revisions')
+    .select(REVISION_COLUMNS)
+    .eq('post_id', postId)
+    .eq('revision_number', revisionNumber)
+    .single()
 }
@@ -0,0 +1,103 @@
+// Publish readiness checks
+// Shared by the publish route and the scheduled publishing worker so both
+// apply the same content, category and slug rules before a post goes live
+
+import { validateContentForPublish, slugify } from './validation'
+import { getPostCategoryIds } from './persistence'
+import { findUniqueSlug } from './slug'
+
+export interface PublishCheckError {
+  status: 400 | 409 | 500
+  message: string
+}
+
+export type PublishCheckResult =
+  | { slug: string; categoryIds: string[]; error: null }
+  | { slug: null; categoryIds: null; error: PublishCheckError }
+
+export type PublishContentCheckResult =
+  | { categoryIds: string[]; error: null }
+  | { categoryIds: null; error: PublishCheckError }
+
+/**
+ * Verify a post's content and categories allow it to be live
+ * Checks, in order:
+ *   1. Content passes validateContentForPublish (400)
+ *   2. Post has at least one category (400)
+ * Unarchive uses this alone, since an archived post keeps its own slug.
+ * @param post - Post id and content
+ * @returns category_ids, or the first failing check
+ */
+export async function checkPublishableContent(post: {
+  id: string
+  content: string
+}): Promise<PublishContentCheckResult> {
+  // 1. VALIDATE CONTENT LENGTH
+  const contentValidation = validateContentForPublish(post.content)
+  if (!contentValidation.valid) {
+    return {
+      categoryIds: null,
+      error: {
+        status: 400,
+        message: contentValidation.error || 'Invalid content for publishing',
+      },
+    }
+  }
+
+  // 2. CHECK CATEGORIES (must have at least one)
+  const { data: categories, error: categoriesError } = await getPostCategoryIds(post.id)
+
+  if (categoriesError || !categories || categories.length === 0) {
+    return {
+      categoryIds: null,
+      error: { status: 400, message: 'Post must have at least one category to publish' },
+    }
+  }
+
+  return { categoryIds: categories.map((c) => c.category_id), error: null }
+}
+
+/**
+ * Verify a post can be published and resolve its final slug
+ * Checks, in order:
+ *   1-2. checkPublishableContent (400)
+ *   3. A unique slug can be generated from the title (500 lookup failure, 409 exhausted)
+ * @param post - Post id, title and content
+ * @returns Final slug and category_ids, or the first failing check
+ */
+export async function checkPublishable(post: {
+  id: string
+  title: string
+  content: string
+}): Promise<PublishCheckResult> {
+  const contentCheck = await checkPublishableContent(post)
+
+  if (contentCheck.error) {
+    return { slug: null, categoryIds: null, error: contentCheck.error }
+  }
+
+  // 3. GENERATE FINAL SLUG WITH UNIQUENESS CHECK (excluding current post)
+  const slugResult = await findUniqueSlug(slugify(post.title), post.id)
+
+  if (slugResult.error === 'lookup_failed') {
+    return {
+      slug: null,
+      categoryIds: null,
+      error: { status: 500, message: 'Failed to validate slug uniqueness' },
+    }
+  }
+
+  if (slugResult.error === 'exhausted') {
+    return {
+      slug: null,
+      categoryIds: null,
+      error: { status: 409, message: 'Could not generate unique slug for this post' },
+    }
+  }
+
+  return {
+    slug: slugResult.slug,
+    categoryIds: contentCheck.categoryIds,
+    error: null,
+  }
+}
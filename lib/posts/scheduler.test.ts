@@ -0,0 +1,111 @@
+// publishDuePosts: posts failing with transient errors must not starve the batch
+// Global fetch is stubbed to play PostgREST for the posts / post_categories / slug requests.
+
+import { before, beforeEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import type { publishDuePosts as PublishDuePosts } from './scheduler'
+
+const POST_ID = '11111111-1111-4111-8111-111111111111'
+const NOW = new Date('2025-01-15T10:00:00.000Z')
+
+/** Requests seen by the stub, as method + URL + parsed body */
+let requests: Array<{ method: string; url: URL; body: unknown }> = []
+/** Whether the publish update fails with a 500 */
+let failPublish = false
+/** Whether the post has a category linked (otherwise it fails the publish checks) */
+let hasCategory = true
+
+let publishDuePosts: typeof PublishDuePosts
+
+before(async () => {
+  mock.method(console, 'error', () => {})
+
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test'
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key'
+
+  mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input)
+    const method = init?.method || 'GET'
+    const single = new Headers(init?.headers).get('Accept') === 'application/vnd.pgrst.object+json'
+    const body = init?.body ? JSON.parse(String(init.body)) : null
+    requests.push({ method, url, body })
+
+    if (url.pathname === '/rest/v1/posts' && method === 'GET' && single) {
+      // Slug lookup (getPostBySlug): the slug is free
+      return Response.json({ code: 'PGRST116', message: 'no rows' }, { status: 406 })
+    }
+
+    if (url.pathname === '/rest/v1/posts' && method === 'GET') {
+      return Response.json([
+        {
+          id: POST_ID,
+          title: 'Foo',
+          slug: 'foo',
+          content: 'Body',
+          author_id: POST_ID,
+          status: 'scheduled',
+          publish_at: '2025-01-15T09:00:00.000Z',
+        },
+      ])
+    }
+
+    if (url.pathname === '/rest/v1/posts' && method === 'PATCH') {
+      return failPublish && body.status === 'published'
+        ? Response.json({ message: 'connection refused' }, { status: 500 })
+        : new Response(null, { status: 204 })
+    }
+
+    if (url.pathname === '/rest/v1/post_categories') {
+      return Response.json(hasCategory ? [{ category_id: POST_ID }] : [])
+    }
+
+    if (url.pathname === '/rest/v1/post_slug_history') {
+      return Response.json([])
+    }
+
+    throw new Error(`Unexpected request: ${method} ${url}`)
+  })
+
+  // Imported after env is set: the Supabase client is created at module load
+  ;({ publishDuePosts } = await import('./scheduler'))
+})
+
+beforeEach(() => {
+  requests = []
+  failPublish = false
+  hasCategory = true
+})
+
+describe('publishDuePosts', () => {
+  it('lists posts not yet attempted first, then the least recently failed', async () => {
+    await publishDuePosts(NOW, 10)
+
+    const list = requests.find((request) => request.method === 'GET' && request.url.pathname === '/rest/v1/posts')
+    assert.equal(list?.url.searchParams.get('order'), 'publish_attempted_at.asc.nullsfirst,publish_at.asc')
+  })
+
+  it('stamps the attempt on a transient failure and keeps the post scheduled', async () => {
+    failPublish = true
+    const { report, error } = await publishDuePosts(NOW, 10)
+
+    assert.equal(error, null)
+    assert.deepEqual(report.failed.map((entry) => entry.id), [POST_ID])
+
+    const updates = requests.filter((request) => request.method === 'PATCH')
+    assert.equal(updates.length, 2)
+    assert.deepEqual(updates[1].body, { publish_attempted_at: NOW.toISOString() })
+    assert.equal(updates[1].url.searchParams.get('status'), 'eq.scheduled')
+  })
+
+  it('does not stamp an attempt when the post is unscheduled', async () => {
+    // No categories linked: a 400 check failure, so the post goes back to draft
+    hasCategory = false
+    const { report } = await publishDuePosts(NOW, 10)
+
+    assert.deepEqual(report.failed, [])
+    const updates = requests.filter((request) => request.method === 'PATCH')
+    assert.equal(updates.length, 1)
+    assert.equal((updates[0].body as Record<string, unknown>).status, 'draft')
+    assert.equal((updates[0].body as Record<string, unknown>).publish_attempted_at, null)
+  })
+})
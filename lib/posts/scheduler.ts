@@ -0,0 +1,161 @@
+// Scheduled publishing worker
+// Publishes posts whose publish_at has passed. Invoked by the cron route
+// (app/api/cron/publish-scheduled) or locally via `npm run publish-scheduled`.
+
+import {
+  listDueScheduledPosts,
+  publishScheduledPost,
+  unschedulePost,
+  markScheduledPublishAttempt,
+  getPostTagIds,
+  createPostRevision,
+} from './persistence'
+import { checkPublishable } from './publishing'
+import { recordModerationEvents } from '../audit/persistence'
+
+/**
+ * Maximum posts published per worker run
+ */
+const DEFAULT_BATCH_SIZE = 50
+
+export interface ScheduledPublishReport {
+  published: Array<{ id: string; slug: string; published_at: string }>
+  unscheduled: Array<{ id: string; reason: string }>
+  failed: Array<{ id: string; reason: string }>
+}
+
+/**
+ * Publish every scheduled post that is due
+ * BEHAVIOR:
+ *   - Runs the same checks as PATCH /api/posts/{id}/publish (checkPublishable)
+ *   - published_at is set to the scheduled publish_at, not the run time
+ *   - Posts failing a 400/409 check go back to draft (unscheduled) so they are not retried
+ *   - Posts failing with a 500 (transient) stay scheduled for the next run; the attempt is
+ *     recorded so they are listed after posts not yet attempted and cannot starve the batch
+ * @param now - Cut-off time (defaults to current time)
+ * @param batchSize - Maximum posts to process in this run
+ */
+export async function publishDuePosts(
+  now: Date = new Date(),
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<{ report: ScheduledPublishReport; error: unknown }> {
+  const report: ScheduledPublishReport = { published: [], unscheduled: [], failed: [] }
+
+  const { data: duePosts, error: listError } = await listDueScheduledPosts(
+    now.toISOString(),
+    batchSize
+  )
+
+  if (listError) {
+    console.error('Failed to list due scheduled posts:', listError)
+    return { report, error: listError }
+  }
+
+  for (const post of duePosts || []) {
+    const check = await checkPublishable(post)
+
+    if (check.error) {
+      if (check.error.status === 500) {
+        await recordFailedAttempt(report, post.id, check.error.message, now)
+        continue
+      }
+
+      const { error: unscheduleError } = await unschedulePost(post.id)
+      if (unscheduleError) {
+        console.error('Failed to unschedule post:', unscheduleError)
+        report.failed.push({ id: post.id, reason: 'Failed to unschedule post' })
+      } else {
+        report.unscheduled.push({ id: post.id, reason: check.error.message })
+
+        const { error: auditError } = await recordModerationEvents([
+          {
+            actor_id: null,
+            target_type: 'post',
+            target_id: post.id,
+            action: 'unschedule',
+            previous_state: 'scheduled',
+            new_state: 'draft',
+            reason: check.error.message,
+          },
+        ])
+
+        if (auditError) {
+          console.error('Failed to record moderation event:', auditError)
+        }
+      }
+      continue
+    }
+
+    const publishedAt = post.publish_at || now.toISOString()
+    const { data: publishedPost, error: publishError } = await publishScheduledPost(
+      post.id,
+      check.slug,
+      publishedAt
+    )
+
+    if (publishError || !publishedPost) {
+      // PGRST116 = row no longer scheduled (published or unscheduled concurrently)
+      if (publishError?.code !== 'PGRST116') {
+        console.error('Failed to publish scheduled post:', publishError)
+        await recordFailedAttempt(report, post.id, 'Failed to publish post', now)
+      }
+      continue
+    }
+
+    report.published.push({
+      id: publishedPost.id,
+      slug: publishedPost.slug,
+      published_at: publishedPost.published_at,
+    })
+
+    const { data: tagRecords } = await getPostTagIds(post.id)
+    const { error: revisionError } = await createPostRevision({
+      post_id: post.id,
+      title: publishedPost.title,
+      content: publishedPost.content,
+      category_ids: check.categoryIds,
+      tag_ids: tagRecords?.map((t) => t.tag_id) || [],
+      event: 'published',
+      created_by: null,
+    })
+
+    if (revisionError) {
+      console.error('Failed to record revision:', revisionError)
+      // Continue anyway, post was published successfully
+    }
+
+    const { error: auditError } = await recordModerationEvents([
+      {
+        actor_id: null,
+        target_type: 'post',
+        target_id: post.id,
+        action: 'publish',
+        previous_state: 'scheduled',
+        new_state: 'published',
+      },
+    ])
+
+    if (auditError) {
+      console.error('Failed to record moderation event:', auditError)
+    }
+  }
+
+  return { report, error: null }
+}
+
+/**
+ * Report a transient failure and stamp the attempt so the post moves to the back of the queue
+ */
+async function recordFailedAttempt(
+  report: ScheduledPublishReport,
+  postId: string,
+  reason: string,
+  now: Date
+) {
+  report.failed.push({ id: postId, reason })
+
+  const { error } = await markScheduledPublishAttempt(postId, now.toISOString())
+  if (error) {
+    console.error('Failed to record publish attempt:', error)
+  }
+}
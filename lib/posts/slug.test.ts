@@ -0,0 +1,79 @@
+// Slug resolution when a post goes live again (unarchive, restore)
+// Global fetch is stubbed to play PostgREST for the posts / post_slug_history lookups.
+
+import { before, beforeEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import type { slugForRepublish as SlugForRepublish } from './slug'
+
+const POST_ID = '11111111-1111-4111-8111-111111111111'
+const OTHER_ID = '22222222-2222-4222-8222-222222222222'
+
+/** slug -> post id of live published posts */
+let liveSlugs: Record<string, string> = {}
+/** slug -> post id of retired slugs (post_slug_history) */
+let retiredSlugs: Record<string, string> = {}
+
+let slugForRepublish: typeof SlugForRepublish
+
+before(async () => {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'http://supabase.test'
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY = 'anon-key'
+
+  mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input)
+    const slug = (url.searchParams.get('slug') || '').replace(/^eq\./, '')
+    const single = new Headers(init?.headers).get('Accept') === 'application/vnd.pgrst.object+json'
+
+    if (url.pathname === '/rest/v1/posts' && single) {
+      // getPostBySlug uses .single(): no row is a PGRST116 error
+      return liveSlugs[slug]
+        ? Response.json({ id: liveSlugs[slug], slug, status: 'published' })
+        : Response.json({ code: 'PGRST116', message: 'no rows' }, { status: 406 })
+    }
+
+    if (url.pathname === '/rest/v1/post_slug_history') {
+      return Response.json(retiredSlugs[slug] ? [{ post_id: retiredSlugs[slug] }] : [])
+    }
+
+    throw new Error(`Unexpected request: ${url}`)
+  })
+
+  // Imported after env is set: the Supabase client is created at module load
+  ;({ slugForRepublish } = await import('./slug'))
+})
+
+beforeEach(() => {
+  liveSlugs = {}
+  retiredSlugs = {}
+})
+
+describe('slugForRepublish', () => {
+  it('unarchive keeps the original slug, not one rebuilt from the title', async () => {
+    // Published as foo-2 while foo was taken; foo is free again now
+    const result = await slugForRepublish({ id: POST_ID, slug: 'foo-2', title: 'Foo' })
+
+    assert.deepEqual(result, { slug: 'foo-2', error: null })
+  })
+
+  it('keeps a slug the post itself retired', async () => {
+    retiredSlugs['foo-2'] = POST_ID
+    const result = await slugForRepublish({ id: POST_ID, slug: 'foo-2', title: 'Foo' })
+
+    assert.deepEqual(result, { slug: 'foo-2', error: null })
+  })
+
+  it('falls back to a fresh slug when another post went live with it', async () => {
+    liveSlugs['foo-2'] = OTHER_ID
+    const result = await slugForRepublish({ id: POST_ID, slug: 'foo-2', title: 'Foo' })
+
+    assert.deepEqual(result, { slug: 'foo', error: null })
+  })
+
+  it('falls back to a fresh slug when another post retired it', async () => {
+    retiredSlugs.foo = OTHER_ID
+    liveSlugs['foo-1'] = OTHER_ID
+    const result = await slugForRepublish({ id: POST_ID, slug: 'foo', title: 'Foo' })
+
+    assert.deepEqual(result, { slug: 'foo-2', error: null })
+  })
+})
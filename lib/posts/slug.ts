@@ -0,0 +1,133 @@
+// Slug uniqueness resolution for published posts
+// Shared by publish and edit flows so both apply the same collision rules
+
+import { getPostBySlug, getSlugHistoryOwner } from './persistence'
+import { slugify } from './validation'
+
+/**
+ * Maximum number of "-N" suffixes tried before giving up
+ */
+const MAX_SLUG_ATTEMPTS = 10
+
+export type UniqueSlugResult =
+  | { slug: string; error: null }
+  | { slug: null; error: 'lookup_failed' }
+  | { slug: null; error: 'exhausted' }
+
+/**
+ * Check whether a slug is free for a post
+ * A slug is free if no other live published post holds it and no other post retired it.
+ * @returns null when the lookup failed
+ */
+async function isSlugAvailable(slug: string, postId: string): Promise<boolean | null> {
+  const { data: existing, error: slugError } = await getPostBySlug(slug)
+
+  // getPostBySlug uses .single() which returns error if not found (PGRST116)
+  if (slugError && slugError.code !== 'PGRST116') {
+    console.error('Error checking slug uniqueness:', slugError)
+    return null
+  }
+
+  if (existing) {
+    return existing.id === postId
+  }
+
+  // No live owner; the slug is free unless another post retired it
+  const { data: retired, error: historyError } = await getSlugHistoryOwner(slug)
+
+  if (historyError) {
+    console.error('Error checking slug history:', historyError)
+    return null
+  }
+
+  return !retired || retired.post_id === postId
+}
+
+/**
+ * Find a slug that no other post currently uses or used before a retitle
+ * Tries baseSlug, then baseSlug-1, baseSlug-2, ... up to MAX_SLUG_ATTEMPTS.
+ * A slug already owned by postId (live or retired) counts as available; slugs retired
+ * by other posts stay reserved so their old links keep resolving.
+ * @param baseSlug - Slugified title
+ * @param postId - Post the slug is being resolved for
+ * @returns Available slug, or the reason no slug could be resolved
+ */
+export async function findUniqueSlug(
+  baseSlug: string,
+  postId: string
+): Promise<UniqueSlugResult> {
+  for (let slugAttempt = 0; slugAttempt < MAX_SLUG_ATTEMPTS; slugAttempt++) {
+    const slug = slugAttempt === 0 ? baseSlug : `${baseSlug}-${slugAttempt}`
+    const available = await isSlugAvailable(slug, postId)
+
+    if (available === null) {
+      return { slug: null, error: 'lookup_failed' }
+    }
+
+    if (available) {
+      return { slug, error: null }
+    }
+  }
+
+  return { slug: null, error: 'exhausted' }
+}
+
+/**
+ * Resolve the slug for a post whose title is changing
+ * Drafts are plainly re-slugified (uniqueness is enforced at publish).
+ * Published posts go through findUniqueSlug so they never collide.
+ * @param post - Post being retitled (id and current status)
+ * @param title - New title
+ */
+export async function slugForTitleChange(
+  post: { id: string; status: string },
+  title: string
+): Promise<UniqueSlugResult> {
+  if (post.status !== 'published') {
+    return { slug: slugify(title), error: null }
+  }
+
+  return findUniqueSlug(slugify(title), post.id)
+}
+
+/**
+ * Resolve the slug for a post being restored from a soft delete
+ * The post keeps the slug it had when deleted. Only a published post whose slug was
+ * taken by another post in the meantime gets a fresh one from its title.
+ * @param post - Deleted post (id, slug, title and status)
+ */
+export async function slugForRestore(
+  post: { id: string; slug: string; title: string; status: string }
+): Promise<UniqueSlugResult> {
+  if (post.status !== 'published') {
+    return { slug: post.slug, error: null }
+  }
+
+  return slugForRepublish(post)
+}
+
+/**
+ * Resolve the slug for a post going live again (restore, unarchive)
+ * Keeps the post's own slug while it is still free; only if another post took it
+ * (live or retired) does the post get a fresh unique slug from its title.
+ * @param post - Post id, current slug and title
+ */
+export async function slugForRepublish(
+  post: { id: string; slug: string | null; title: string }
+): Promise<UniqueSlugResult> {
+  if (!post.slug) {
+    return findUniqueSlug(slugify(post.title), post.id)
+  }
+
+  const available = await isSlugAvailable(post.slug, post.id)
+
+  if (available === null) {
+    return { slug: null, error: 'lookup_failed' }
+  }
+
+  if (available) {
+    return { slug: post.slug, error: null }
+  }
+
+  return findUniqueSlug(slugify(post.title), post.id)
+}
@@ -0,0 +1,55 @@
+// Search Persistence Layer
+// Handles full-text search over published posts via Postgres RPC functions
+
+import { supabase } from '../db/supabase'
+
+// ============================================================================
+// FULL-TEXT SEARCH
+// ============================================================================
+// SCOPE: Pure persistence operations. Query parsing (buildTsQuery) and parameter
+// validation are handled by the route. Ranking, filtering and ts_headline snippets are
+// computed in SQL (search_posts / count_search_posts in supabase/migration/migration.sql)
+// because PostgREST filters cannot express ts_rank_cd or ts_headline.
+// TRANSACTIONS: Not needed; reads are non-critical and pagination is stateless.
+
+export type SearchSort = 'relevance' | 'newest'
+
+export interface SearchResultRow {
+  id: string
+  title: string
+  slug: string
+  author_id: string
+  author_email: string | null
+  published_at: string
+  rank: number
+  title_highlight: string
+  snippet: string
+}
+
+/**
+ * Search published posts
+ * RESPONSIBILITY: RPC call only. Returns ranked rows (SearchResultRow) with highlighted
+ * title and content snippet (HTML-escaped text, matches wrapped in <mark>...</mark>).
+ * @param tsQuery - Output of buildTsQuery (already sanitized)
+ */
+export async function searchPublishedPosts(
+  tsQuery: string,
+  sort: SearchSort,
+  offset: number,
+  limit: number
+) {
+  return supabase.rpc('search_posts', {
+    search_query: tsQuery,
+    sort_by: sort,
+    page_limit: limit,
+    page_offset: offset,
+  })
+}
+
+/**
+ * Count published posts matching a search query
+ * RESPONSIBILITY: RPC call only. Returns a bigint count for pagination metadata in route.
+ */
+export async function countSearchResults(tsQuery: string) {
+  return supabase.rpc('count_search_posts', { search_query: tsQuery })
+}
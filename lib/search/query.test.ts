@@ -0,0 +1,33 @@
+// buildSubstringPattern: admin title / email search must match the input literally
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildSubstringPattern } from './query'
+
+describe('buildSubstringPattern', () => {
+  it('leaves plain text untouched', () => {
+    assert.equal(buildSubstringPattern('Hello world'), 'Hello world')
+  })
+
+  it('escapes the PostgREST like wildcard and regex metacharacters', () => {
+    assert.equal(buildSubstringPattern('a*b'), 'a\\*b')
+    assert.equal(buildSubstringPattern('f(x), g[y]'), 'f\\(x\\), g\\[y\\]')
+    assert.equal(buildSubstringPattern('^.+?$|{2}\\'), '\\^\\.\\+\\?\\$\\|\\{2\\}\\\\')
+  })
+
+  it('keeps LIKE wildcards literal (no longer special with imatch)', () => {
+    assert.equal(buildSubstringPattern('100%_done'), '100%_done')
+  })
+
+  it('matches only the literal input as a substring', () => {
+    for (const input of ['a*b', 'c++', '(draft)', 'x|y', 'a.b', 'back\\slash']) {
+      const pattern = new RegExp(buildSubstringPattern(input), 'i')
+
+      assert.ok(pattern.test(`Title with ${input.toUpperCase()} inside`), input)
+      assert.equal(pattern.test('Title without it'), false, input)
+    }
+
+    assert.equal(new RegExp(buildSubstringPattern('a.b'), 'i').test('axb'), false)
+    assert.equal(new RegExp(buildSubstringPattern('a*b'), 'i').test('aaab'), false)
+  })
+})
@@ -0,0 +1,61 @@
+// Search query parsing
+// Turns free-text user input into a Postgres tsquery string
+
+/**
+ * Maximum accepted length of the raw search input
+ */
+export const MAX_SEARCH_QUERY_LENGTH = 200
+
+/**
+ * Build a to_tsquery() expression from user input
+ * SYNTAX:
+ *   - Bare words match as prefixes: `postgr` -> `postgr:*`
+ *   - "Quoted phrases" match adjacent words in order: `"full text"` -> `(full <-> text)`
+ *   - All terms are ANDed together
+ * SAFETY: Only letters and digits survive, so tsquery operators in the input
+ * (&, |, !, :, parentheses) cannot change the query structure.
+ * @param input - Raw search string from the request
+ * @returns tsquery string, or null if the input contains no searchable words
+ */
+export function buildTsQuery(input: string): string | null {
+  const parts: string[] = []
+  const phrasePattern = /"([^"]*)"/g
+
+  // 1. Quoted phrases
+  let match: RegExpExecArray | null
+  while ((match = phrasePattern.exec(input)) !== null) {
+    const words = extractWords(match[1])
+    if (words.length === 1) {
+      parts.push(words[0])
+    } else if (words.length > 1) {
+      parts.push(`(${words.join(' <-> ')})`)
+    }
+  }
+
+  // 2. Remaining bare words (prefix match)
+  const rest = input.replace(phrasePattern, ' ')
+  for (const word of extractWords(rest)) {
+    parts.push(`${word}:*`)
+  }
+
+  return parts.length > 0 ? parts.join(' & ') : null
+}
+
+/**
+ * Build a case-insensitive substring filter value for PostgREST's imatch (~*) operator
+ * SAFETY: Every regex metacharacter is backslash-escaped, so the input matches literally.
+ * imatch is used instead of ilike because PostgREST rewrites `*` to `%` in like patterns,
+ * which cannot be escaped. The value is a plain column filter, never part of an or()
+ * expression, so `,` needs no quoting (parentheses are escaped above).
+ * @param input - Raw search string from the request
+ */
+export function buildSubstringPattern(input: string): string {
+  return input.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Split text into lowercase letter/digit words
+ */
+function extractWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+}
@@ -0,0 +1,116 @@
+// Built-in spam heuristics
+// Each scorer looks at one signal and returns points plus a human-readable reason
+
+import type { SpamScorer } from './index'
+import { countRecentCommentsByAuthor, findRecentDuplicateComments } from './persistence'
+
+/**
+ * Links allowed before the link-count heuristic starts scoring
+ */
+const FREE_LINKS = 2
+
+/**
+ * Terms that are almost never legitimate in blog comments.
+ * Extend per deployment with SPAM_BLOCKLIST (comma-separated).
+ */
+const DEFAULT_BLOCKLIST = ['viagra', 'casino', 'crypto giveaway', 'payday loan', 'buy followers']
+
+/**
+ * Comments per author allowed in the velocity window before scoring
+ */
+const VELOCITY_WINDOW_MINUTES = 10
+const VELOCITY_FREE_COMMENTS = 5
+
+/**
+ * How far back identical content counts as a duplicate
+ */
+const DUPLICATE_WINDOW_HOURS = 24
+
+function blocklistTerms(): string[] {
+  const extra = (process.env.SPAM_BLOCKLIST || '')
+    .split(',')
+    .map((term) => term.trim().toLowerCase())
+    .filter(Boolean)
+  return [...new Set([...DEFAULT_BLOCKLIST, ...extra])]
+}
+
+/**
+ * 2 points per link beyond the first two
+ */
+export const linkCountScorer: SpamScorer = {
+  name: 'link_count',
+  async score({ content }) {
+    const links = content.match(/https?:\/\/|www\./gi)?.length || 0
+    if (links <= FREE_LINKS) {
+      return null
+    }
+    return { score: (links - FREE_LINKS) * 2, reason: `Contains ${links} links` }
+  },
+}
+
+/**
+ * 5 points per distinct blocklisted term (case-insensitive substring)
+ */
+export const blocklistScorer: SpamScorer = {
+  name: 'blocklist',
+  async score({ content }) {
+    const lower = content.toLowerCase()
+    const hits = blocklistTerms().filter((term) => lower.includes(term))
+    if (hits.length === 0) {
+      return null
+    }
+    return { score: hits.length * 5, reason: `Contains blocklisted terms: ${hits.join(', ')}` }
+  },
+}
+
+/**
+ * Same author repeating a comment: 5 points; other authors posting the exact
+ * same text (copy-paste flood): 3 points
+ */
+export const duplicateContentScorer: SpamScorer = {
+  name: 'duplicate_content',
+  async score({ content, authorId }) {
+    const since = new Date(Date.now() - DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+    const { data: duplicates, error } = await findRecentDuplicateComments(content, since, 20)
+
+    if (error) {
+      throw error
+    }
+
+    if (!duplicates || duplicates.length === 0) {
+      return null
+    }
+
+    if (duplicates.some((duplicate) => duplicate.author_id === authorId)) {
+      return { score: 5, reason: 'Repeats a comment the author already submitted' }
+    }
+
+    return { score: 3, reason: `Identical to ${duplicates.length} recent comment(s) by other users` }
+  },
+}
+
+/**
+ * 2 points per comment beyond VELOCITY_FREE_COMMENTS in the window
+ */
+export const velocityScorer: SpamScorer = {
+  name: 'velocity',
+  async score({ authorId, excludeCommentId }) {
+    const since = new Date(Date.now() - VELOCITY_WINDOW_MINUTES * 60 * 1000).toISOString()
+    const { count, error } = await countRecentCommentsByAuthor(authorId, since, excludeCommentId)
+
+    if (error) {
+      throw error
+    }
+
+    const recent = count || 0
+    if (recent < VELOCITY_FREE_COMMENTS) {
+      return null
+    }
+
+    // +1: the comment being submitted is not stored yet
+    return {
+      score: (recent + 1 - VELOCITY_FREE_COMMENTS) * 2,
+      reason: `${recent + 1} comments in ${VELOCITY_WINDOW_MINUTES} minutes`,
+    }
+  },
+}
@@ -0,0 +1,98 @@
+// Spam scoring pipeline for submitted comments
+// Runs every registered scorer, sums their points and maps the total to an action
+
+import {
+  linkCountScorer,
+  blocklistScorer,
+  duplicateContentScorer,
+  velocityScorer,
+} from './heuristics'
+
+export interface SpamCheckInput {
+  content: string
+  authorId: string
+  postId: string
+  /** Comment being edited; excluded from counts so an edit is not scored as a new comment */
+  excludeCommentId?: string
+}
+
+export interface SpamSignal {
+  score: number
+  reason: string
+}
+
+/**
+ * A single spam heuristic
+ * Return null when the signal is absent. Throwing is allowed (e.g. a failed
+ * query); the pipeline logs it and skips the scorer.
+ */
+export interface SpamScorer {
+  name: string
+  score(input: SpamCheckInput): Promise<SpamSignal | null>
+}
+
+export type SpamAction = 'allow' | 'spam' | 'reject'
+
+export interface SpamVerdict {
+  score: number
+  reasons: string[]
+  action: SpamAction
+}
+
+/**
+ * Scorers run for every comment, in order
+ */
+export const DEFAULT_SCORERS: SpamScorer[] = [
+  linkCountScorer,
+  blocklistScorer,
+  duplicateContentScorer,
+  velocityScorer,
+]
+
+/**
+ * Score at which a comment is stored as spam instead of pending (SPAM_FILE_THRESHOLD, default 5)
+ * and at which it is refused with 422 (SPAM_REJECT_THRESHOLD, default 10)
+ */
+export function getSpamThresholds(): { file: number; reject: number } {
+  const file = parseFloat(process.env.SPAM_FILE_THRESHOLD || '5')
+  const reject = parseFloat(process.env.SPAM_REJECT_THRESHOLD || '10')
+  return {
+    file: isNaN(file) ? 5 : file,
+    reject: isNaN(reject) ? 10 : reject,
+  }
+}
+
+/**
+ * Score a comment and decide what to do with it
+ * BEHAVIOR: Scorers run concurrently; a scorer that throws is logged and ignored,
+ * so spam checks fail open (the comment still goes to moderation).
+ * @param scorers - Defaults to DEFAULT_SCORERS; pass a custom list to plug in others
+ */
+export async function evaluateSpam(
+  input: SpamCheckInput,
+  scorers: SpamScorer[] = DEFAULT_SCORERS
+): Promise<SpamVerdict> {
+  const signals = await Promise.all(
+    scorers.map(async (scorer) => {
+      try {
+        return await scorer.score(input)
+      } catch (err) {
+        console.error(`Spam scorer "${scorer.name}" failed:`, err)
+        return null
+      }
+    })
+  )
+
+  const hits = signals.filter((signal): signal is SpamSignal => signal !== null && signal.score > 0)
+  const score = hits.reduce((total, signal) => total + signal.score, 0)
+  const thresholds = getSpamThresholds()
+
+  let action: SpamAction = 'allow'
+  if (score >= thresholds.reject) {
+    action = 'reject'
+  } else if (score >= thresholds.file) {
+    action = 'spam'
+  }
+
+  return { score, reasons: hits.map((signal) => signal.reason), action }
+}
@@ -0,0 +1,50 @@
+// Spam Signals Persistence Layer
+// Read-only queries backing the database-driven spam heuristics
+
+import { supabase } from '../db/supabase'
+import { hashCommentContent } from '../comments/persistence'
+
+// ============================================================================
+// SPAM SIGNAL QUERIES
+// ============================================================================
+// SCOPE: Pure persistence operations. Scoring thresholds live in lib/spam/heuristics.ts.
+// TRANSACTIONS: Not needed; counts are advisory and computed before the insert.
+
+/**
+ * Count comments an author submitted since a point in time (any status)
+ * RESPONSIBILITY: Database count only. Backs the submission-velocity heuristic.
+ * @param excludeCommentId - Comment being edited, left out of the count
+ */
+export async function countRecentCommentsByAuthor(
+  authorId: string,
+  sinceIso: string,
+  excludeCommentId?: string
+) {
+  let query = supabase
+    .from('comments')
+    .select('id', { count: 'exact', head: true })
+    .eq('author_id', authorId)
+    .gte('created_at', sinceIso)
+
+  if (excludeCommentId) {
+    query = query.neq('id', excludeCommentId)
+  }
+
+  return query
+}
+
+/**
+ * Find comments with exactly this content since a point in time
+ * RESPONSIBILITY: Database read only. Backs the duplicate-content heuristic; returns
+ * author_id of each match so the caller can tell self-repeats from copy-paste floods.
+ * Matches on content_hash: the content itself (up to 5000 chars) would not fit in a
+ * GET query string.
+ */
+export async function findRecentDuplicateComments(content: string, sinceIso: string, limit: number) {
+  return supabase
+    .from('comments')
+    .select('author_id')
+    .eq('content_hash', hashCommentContent(content))
+    .gte('created_at', sinceIso)
+    .limit(limit)
+}
@@ -0,0 +1,184 @@
+// Tags Persistence Layer
+// Handles all database operations for tag management and tag upserts from post authoring
+
+import { supabase } from '../db/supabase'
+
+/**
+ * Type definitions for tag operations
+ */
+export interface TagRecordData {
+  name: string
+  slug: string
+}
+
+// ============================================================================
+// LIST / GET TAGS (ADMIN)
+// ============================================================================
+// SCOPE: Pure persistence operations. Authorization (admin-only) is enforced by route handler.
+// NOTE: Public GET /api/tags keeps its own query.
+
+/**
+ * List all tags with linked post counts
+ * RESPONSIBILITY: Database query only. post_tags(count) is an aggregate embed,
+ * so counts come back in the same query.
+ */
+export async function listAllTags() {
+  return supabase
+    .from('tags')
+    .select('id, name, slug, created_at, post_tags(count)')
+    .order('name', { ascending: true })
+}
+
+/**
+ * Get tag by ID
+ * RESPONSIBILITY: Database read only. Returns null data (no error) if not found.
+ */
+export async function getTagById(tagId: string) {
+  return supabase
+    .from('tags')
+    .select('id, name, slug, created_at')
+    .eq('id', tagId)
+    .maybeSingle()
+}
+
+/**
+ * Find a tag by slug, optionally ignoring one tag
+ * RESPONSIBILITY: Database read only. Route uses this for slug uniqueness (409).
+ * @param excludeTagId - Tag being renamed (its own slug is not a conflict)
+ */
+export async function findTagBySlug(slug: string, excludeTagId?: string) {
+  let query = supabase
+    .from('tags')
+    .select('id, name, slug')
+    .eq('slug', slug)
+
+  if (excludeTagId) {
+    query = query.neq('id', excludeTagId)
+  }
+
+  return query.maybeSingle()
+}
+
+// ============================================================================
+// CREATE / UPDATE / DELETE TAG
+// ============================================================================
+// SCOPE: Pure persistence operations. Name validation and slug uniqueness are
+// enforced by route handler; tags.slug unique constraint is the backstop.
+// TRANSACTIONS: Not needed; each operation is a single statement.
+
+/**
+ * Create tag
+ * RESPONSIBILITY: Database insert only.
+ */
+export async function createTag(data: TagRecordData) {
+  return supabase
+    .from('tags')
+    .insert({ name: data.name, slug: data.slug })
+    .select('id, name, slug, created_at')
+    .single()
+}
+
+/**
+ * Rename tag (name and slug)
+ * RESPONSIBILITY: Database update only. post_tags reference tag id, so links are unaffected.
+ */
+export async function updateTag(tagId: string, data: TagRecordData) {
+  return supabase
+    .from('tags')
+    .update({ name: data.name, slug: data.slug })
+    .eq('id', tagId)
+    .select('id, name, slug, created_at')
+    .single()
+}
+
+/**
+ * Delete tag
+ * RESPONSIBILITY: Database delete only. post_tags links cascade (tags are optional on posts).
+ */
+export async function deleteTag(tagId: string) {
+  return supabase
+    .from('tags')
+    .delete()
+    .eq('id', tagId)
+}
+
+// ============================================================================
+// UPSERT TAGS BY NAME (post authoring)
+// ============================================================================
+// SCOPE: Pure persistence operations. Names are validated and slugified by caller
+// (resolveTagNames in lib/tags/resolve.ts).
+// TRANSACTIONS: Not needed; upsert on slug is idempotent, so concurrent requests
+// creating the same tag converge on one row.
+
+/**
+ * Insert missing tags (matched by slug) and return all requested tags
+ * RESPONSIBILITY: Database upsert + read. Existing tags keep their original name.
+ * @param tags - Deduplicated { name, slug } records
+ */
+export async function upsertTagsBySlug(tags: TagRecordData[]) {
+  const { error: upsertError } = await supabase
+    .from('tags')
+    .upsert(tags, { onConflict: 'slug', ignoreDuplicates: true })
+
+  if (upsertError) {
+    return { data: null, error: upsertError }
+  }
+
+  return supabase
+    .from('tags')
+    .select('id, name, slug')
+    .in('slug', tags.map((tag) => tag.slug))
+}
+
+// ============================================================================
+// MERGE TAGS / ORPHAN CLEANUP
+// ============================================================================
+// SCOPE: Pure persistence operations. Route validates tags exist and differ.
+// TRANSACTIONS: merge_tags / delete_orphan_tags (migration.sql) each run as one
+// function call, so they are all-or-nothing.
+
+/**
+ * Merge source tag into target
+ * RESPONSIBILITY: RPC call only. Every post tagged with source ends up tagged with
+ * target (posts already tagged with both keep a single link); source is deleted.
+ * @returns Number of posts newly tagged with target
+ */
+export async function mergeTags(sourceTagId: string, targetTagId: string) {
+  return supabase.rpc('merge_tags', {
+    source_id: sourceTagId,
+    target_id: targetTagId,
+  })
+}
+
+/**
+ * Delete tags not linked to any post
+ * RESPONSIBILITY: RPC call only.
+ * @returns Number of deleted tags
+ */
+export async function deleteOrphanTags() {
+  return supabase.rpc('delete_orphan_tags')
+}
+
+// ============================================================================
+// HELPER UTILITIES
+// ============================================================================
+
+/**
+ * Format tag for admin responses
+ * RESPONSIBILITY: Structural transformation only. Flattens post_tags(count).
+ */
+export function formatAdminTag(tag: Record<string, unknown>) {
+  const response: Record<string, unknown> = {
+    id: tag.id,
+    name: tag.name,
+    slug: tag.slug,
+    created_at: tag.created_at,
+  }
+
+  if (tag.post_tags !== undefined) {
+    const counts = tag.post_tags as Array<{ count: number }> | undefined
+    response.post_count = counts?.[0]?.count ?? 0
+  }
+
+  return response
+}
@@ -0,0 +1,54 @@
+// Tag name resolution
+// Shared by post create and post edit so tag_names are turned into tag ids
+// (creating missing tags) the same way in both routes
+
+import { slugify } from '../posts/validation'
+import { upsertTagsBySlug, TagRecordData } from './persistence'
+
+export interface ResolveTagNamesError {
+  status: 400 | 500
+  message: string
+}
+
+export type ResolveTagNamesResult =
+  | { tagIds: string[]; error: null }
+  | { tagIds: null; error: ResolveTagNamesError }
+
+/**
+ * Resolve tag names to tag ids, creating tags that do not exist yet
+ * Names are matched by slugify(name), so "Next.js" and "nextjs" are the same tag.
+ * Existing tags keep their current display name.
+ * @param tagNames - Names already checked by validateTagNames
+ * @returns Tag ids (one per distinct slug), or the failing step
+ */
+export async function resolveTagNames(tagNames: string[]): Promise<ResolveTagNamesResult> {
+  // 1. SLUGIFY AND DEDUPLICATE
+  const bySlug = new Map<string, TagRecordData>()
+  for (const rawName of tagNames) {
+    const name = rawName.trim()
+    const slug = slugify(name)
+    if (!slug) {
+      return {
+        tagIds: null,
+        error: { status: 400, message: `Tag name "${name}" must contain at least one letter or digit` },
+      }
+    }
+    if (!bySlug.has(slug)) {
+      bySlug.set(slug, { name, slug })
+    }
+  }
+
+  if (bySlug.size === 0) {
+    return { tagIds: [], error: null }
+  }
+
+  // 2. UPSERT MISSING TAGS AND FETCH IDS
+  const { data: tags, error } = await upsertTagsBySlug([...bySlug.values()])
+
+  if (error || !tags) {
+    console.error('Failed to upsert tags:', error)
+    return { tagIds: null, error: { status: 500, message: 'Failed to create tags' } }
+  }
+
+  return { tagIds: tags.map((tag) => tag.id), error: null }
+}
@@ -0,0 +1,67 @@
+// Tag validation utilities
+// Validates tag names for admin tag management and tag_names on post create/edit
+
+/**
+ * Maximum number of tag names accepted in one post create/edit request
+ */
+export const MAX_TAG_NAMES = 20
+
+/**
+ * Validate tag name
+ * @param name - Tag name to validate
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateTagName(name: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (!name) {
+    return { valid: false, error: 'Tag name is required' }
+  }
+
+  if (typeof name !== 'string') {
+    return { valid: false, error: 'Tag name must be a string' }
+  }
+
+  if (name.trim().length === 0) {
+    return { valid: false, error: 'Tag name cannot be empty' }
+  }
+
+  if (name.length > 50) {
+    return { valid: false, error: 'Tag name must be 50 characters or less' }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * Validate tag_names field on post create/edit
+ * Each name must be valid and produce a non-empty slug (checked by caller via slugify).
+ * @param tagNames - tag_names value from request body
+ * @returns { valid: boolean, error?: string }
+ */
+export function validateTagNames(tagNames: unknown): {
+  valid: boolean
+  error?: string
+} {
+  if (tagNames === undefined) {
+    return { valid: true } // tag_names is optional
+  }
+
+  if (!Array.isArray(tagNames)) {
+    return { valid: false, error: 'tag_names must be an array' }
+  }
+
+  if (tagNames.length > MAX_TAG_NAMES) {
+    return { valid: false, error: `tag_names may contain at most ${MAX_TAG_NAMES} names` }
+  }
+
+  for (const name of tagNames) {
+    const nameValidation = validateTagName(name)
+    if (!nameValidation.valid) {
+      return { valid: false, error: `Invalid tag_names entry: ${nameValidation.error}` }
+    }
+  }
+
+  return { valid: true }
+}
@@ -0,0 +1,134 @@
+// Users Persistence Layer
+// Handles all database operations for user roles and account status (admin user management)
+
+import { supabase } from '../db/supabase'
+import { buildSubstringPattern } from '../search/query'
+
+/**
+ * Type definitions for user operations
+ */
+export type UserRole = 'admin' | 'editor' | 'viewer'
+
+export interface UserFilters {
+  roles?: UserRole[] | null
+  /** Case-insensitive substring of the email */
+  emailSearch?: string | null
+  /** true = only active, false = only deactivated, null = both */
+  active?: boolean | null
+}
+
+export interface UserUpdateData {
+  role?: UserRole
+  /** false deactivates (sets deactivated_at), true reactivates */
+  active?: boolean
+}
+
+const USER_COLUMNS = 'id, email, role, deactivated_at, created_at'
+
+// ============================================================================
+// ACCESS LOOKUP (requireAuth)
+// ============================================================================
+// SCOPE: Pure persistence operations. Called on every authenticated request;
+// lib/auth decides what a missing row or deactivated account means.
+
+/**
+ * Get the stored role and account status of a user
+ * RESPONSIBILITY: Database read only. Returns null data (no error) if the user has
+ * no row in public.users.
+ */
+export async function getUserAccess(userId: string) {
+  return supabase
+    .from('users')
+    .select('id, role, deactivated_at')
+    .eq('id', userId)
+    .maybeSingle()
+}
+
+// ============================================================================
+// LIST / UPDATE USERS (ADMIN)
+// ============================================================================
+// SCOPE: Pure persistence operations. Authorization (admin-only), filter validation
+// and self-change rules are enforced by route handler.
+// TRANSACTIONS: Not needed; single-row updates.
+
+/**
+ * Build a users query with filters applied
+ * RESPONSIBILITY: Query construction only.
+ */
+function usersQuery(
+  columns: string,
+  filters: UserFilters,
+  options?: { count?: 'exact'; head?: boolean }
+) {
+  let query = supabase.from('users').select(columns, options)
+
+  if (filters.roles && filters.roles.length > 0) {
+    query = query.in('role', filters.roles)
+  }
+
+  if (filters.emailSearch) {
+    query = query.filter('email', 'imatch', buildSubstringPattern(filters.emailSearch))
+  }
+
+  if (filters.active === true) {
+    query = query.is('deactivated_at', null)
+  } else if (filters.active === false) {
+    query = query.not('deactivated_at', 'is', null)
+  }
+
+  return query
+}
+
+/**
+ * List users ordered by email
+ * RESPONSIBILITY: Database query only. id is the tie-breaker for stable pages.
+ */
+export async function listUsers(offset: number, limit: number, filters: UserFilters = {}) {
+  return usersQuery(USER_COLUMNS, filters)
+    .order('email', { ascending: true })
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1)
+}
+
+/**
+ * Get total count of users matching the same filters as listUsers
+ */
+export async function countUsers(filters: UserFilters = {}) {
+  return usersQuery('id', filters, { count: 'exact', head: true })
+}
+
+/**
+ * Get user by ID
+ * RESPONSIBILITY: Database read only. Returns null data (no error) if not found.
+ */
+export async function getUserById(userId: string) {
+  return supabase
+    .from('users')
+    .select(USER_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle()
+}
+
+/**
+ * Change a user's role and/or account status
+ * RESPONSIBILITY: Database update only. active: false sets deactivated_at to now,
+ * active: true clears it. Route only passes fields that actually change.
+ */
+export async function updateUser(userId: string, data: UserUpdateData) {
+  const updateData: Record<string, unknown> = {}
+
+  if (data.role !== undefined) {
+    updateData.role = data.role
+  }
+
+  if (data.active !== undefined) {
+    updateData.deactivated_at = data.active ? null : new Date().toISOString()
+  }
+
+  return supabase
+    .from('users')
+    .update(updateData)
+    .eq('id', userId)
+    .select(USER_COLUMNS)
+    .single()
+}
@@ -0,0 +1,32 @@
+// Run the scheduled publishing worker once against a running app
+// Usage: CRON_SECRET=... NEXT_PUBLIC_API_URL=http://localhost:3000 npm run publish-scheduled
+// Suitable for a system crontab, e.g. `* * * * * cd /app && npm run publish-scheduled`
+
+const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'
+const cronSecret = process.env.CRON_SECRET
+
+if (!cronSecret) {
+  console.error('CRON_SECRET is not set')
+  process.exit(1)
+}
+
+const response = await fetch(`${baseUrl}/api/cron/publish-scheduled`, {
+  headers: { Authorization: `Bearer ${cronSecret}` },
+})
+
+const body = await response.json().catch(() => ({}))
+
+if (!response.ok) {
+  console.error(`Scheduled publishing failed (${response.status}):`, body.error || body)
+  process.exit(1)
+}
+
+console.log(
+  `Published ${body.published.length}, unscheduled ${body.unscheduled.length}, failed ${body.failed.length}`
+)
+for (const post of body.unscheduled) {
+  console.log(`  unscheduled ${post.id}: ${post.reason}`)
+}
+for (const post of body.failed) {
+  console.log(`  failed ${post.id}: ${post.reason}`)
+}
@@ -2,3 +2,14 @@ insert into public.users (id, email, created_at)
 select id, email, created_at
 from auth.users
 on conflict (id) do nothing;
+
+-- One-off: carry roles over from app_metadata (run once when users.role is introduced;
+-- afterwards roles are managed via /api/admin/users only).
+-- user_metadata is editable by the user themselves, so it is never trusted here: users
+-- without an app_metadata role keep the default (viewer) and admins are promoted via
+-- /api/admin/users or an explicit update.
+update public.users u
+set role = a.raw_app_meta_data->>'role'
+from auth.users a
+where a.id = u.id
+  and a.raw_app_meta_data->>'role' in ('admin','editor','viewer');
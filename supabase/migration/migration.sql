@@ -30,8 +30,10 @@ create table if not exists posts (
   content text not null,
 
   author_id uuid not null,
-  status text not null check (status in ('draft','published','archived')),
+  status text not null check (status in ('draft','scheduled','published','archived')),
 
+  publish_at timestamptz,
+  publish_attempted_at timestamptz,
   published_at timestamptz,
   created_at timestamptz not null default now(),
   updated_at timestamptz not null default now(),
@@ -42,14 +44,57 @@ create table if not exists posts (
     on delete cascade
 );
 
--- Unique slug only for published posts
-create unique index if not exists posts_slug_unique
+-- Soft delete (restore window enforced by the API)
+alter table posts add column if not exists deleted_at timestamptz;
+
+-- Unique slug only for live published posts
+-- (archived and soft-deleted posts release their slug)
+drop index if exists posts_slug_unique;
+create unique index posts_slug_unique
 on posts (slug)
-where status = 'published';
+where status = 'published' and deleted_at is null;
 
 create index if not exists idx_posts_author_id on posts(author_id);
 create index if not exists idx_posts_status on posts(status);
 
+-- Existing databases: widen status check and add publish_at (scheduled publishing)
+alter table posts add column if not exists publish_at timestamptz;
+-- Last failed (transient) worker attempt; cleared whenever the post is (re)scheduled,
+-- published or unscheduled
+alter table posts add column if not exists publish_attempted_at timestamptz;
+alter table posts drop constraint if exists posts_status_check;
+alter table posts add constraint posts_status_check
+  check (status in ('draft','scheduled','published','archived'));
+
+-- Full-text search: title weighted (A) above content (B)
+alter table posts add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) stored;
+
+create index if not exists idx_posts_search_vector on posts using gin (search_vector);
+
+-- Worker lookup: due scheduled posts, never attempted first, then least recently failed,
+-- so posts that keep failing cannot starve the batch
+drop index if exists idx_posts_scheduled_publish_at;
+create index if not exists idx_posts_scheduled_due
+on posts (publish_attempted_at nulls first, publish_at)
+where status = 'scheduled';
+
+-- Approved comments (replies included); maintained by trigger on comments
+alter table posts add column if not exists comment_count integer not null default 0;
+
+-- Sort: most_commented
+create index if not exists idx_posts_published_comment_count
+on posts (comment_count desc, published_at desc, id desc)
+where status = 'published' and deleted_at is null;
+
+-- Keyset pagination: public listing ordered by (published_at, id)
+create index if not exists idx_posts_published_keyset
+on posts (published_at, id)
+where status = 'published' and deleted_at is null;
+
 -- ============================================================================
 -- COMMENTS
 -- ============================================================================
@@ -72,6 +117,60 @@ create index if not exists idx_comments_post_id on comments(post_id);
 create index if not exists idx_comments_status on comments(status);
 create index if not exists idx_comments_parent on comments(parent_comment_id);
 
+-- Keyset pagination: approved top-level comments ordered by (created_at, id)
+create index if not exists idx_comments_top_level_keyset
+on comments (post_id, created_at, id)
+where status = 'approved' and parent_comment_id is null;
+
+-- Moderation queue: pending comments oldest first
+create index if not exists idx_comments_pending_queue
+on comments (created_at, id)
+where status = 'pending';
+
+-- Keep posts.comment_count equal to the number of approved, non-tombstoned comments
+-- NOTE:
+-- - Fires on every status transition (moderation), tombstoning, insert and delete
+-- - Cascaded deletes (parent comment, post) fire per row as well
+-- - deleted_at (tombstones, see COMMENT EDITING & AUTHOR DELETION) is added here
+--   because the trigger below watches it
+alter table comments add column if not exists deleted_at timestamptz;
+
+create or replace function sync_post_comment_count()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and old.status = new.status
+    and old.post_id = new.post_id
+    and (old.deleted_at is null) = (new.deleted_at is null) then
+    return null;
+  end if;
+
+  if tg_op in ('UPDATE', 'DELETE') and old.status = 'approved' and old.deleted_at is null then
+    update posts set comment_count = comment_count - 1 where id = old.post_id;
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') and new.status = 'approved' and new.deleted_at is null then
+    update posts set comment_count = comment_count + 1 where id = new.post_id;
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists comments_sync_post_comment_count on comments;
+create trigger comments_sync_post_comment_count
+after insert or delete or update of status, post_id, deleted_at on comments
+for each row execute function sync_post_comment_count();
+
+-- Backfill counters for existing data
+update posts p
+set comment_count = (
+  select count(*) from comments c
+  where c.post_id = p.id and c.status = 'approved' and c.deleted_at is null
+);
+
 -- ============================================================================
 -- CATEGORIES
 -- ============================================================================
@@ -83,6 +182,44 @@ create table if not exists categories (
   created_at timestamptz default now()
 );
 
+-- Hierarchy: parent section (null = top-level); deleting a parent lifts its children
+alter table categories add column if not exists parent_id uuid
+  references categories(id) on delete set null;
+
+create index if not exists idx_categories_parent_id on categories(parent_id);
+
+-- Cycle prevention backstop (API checks first): a category may not become
+-- its own ancestor
+create or replace function prevent_category_cycle()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if exists (
+    with recursive ancestors as (
+      select c.id, c.parent_id from categories c where c.id = new.parent_id
+      union
+      select c.id, c.parent_id from categories c join ancestors a on c.id = a.parent_id
+    )
+    select 1 from ancestors where id = new.id
+  ) then
+    raise exception 'category % cannot be its own ancestor', new.id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists categories_prevent_cycle on categories;
+create trigger categories_prevent_cycle
+before insert or update of parent_id on categories
+for each row execute function prevent_category_cycle();
+
 -- ============================================================================
 -- POST ↔ CATEGORIES (M:N)
 -- ============================================================================
@@ -111,6 +248,394 @@ create table if not exists post_tags (
   primary key (post_id, tag_id)
 );
 
+-- ============================================================================
+-- POST SLUG HISTORY
+-- ============================================================================
+-- NOTE:
+-- - Slugs a published post used before its title was edited
+-- - Keeps old links resolving after a slug is regenerated
+-- ============================================================================
+create table if not exists post_slug_history (
+  slug text primary key,
+  post_id uuid not null references posts(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_post_slug_history_post_id on post_slug_history(post_id);
+
+-- ============================================================================
+-- POST REVISIONS (audit trail)
+-- ============================================================================
+-- NOTE:
+-- - Append-only snapshot written on create, edit, publish and restore
+-- - revision_number is sequential per post, starting at 1
+-- ============================================================================
+create table if not exists post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references posts(id) on delete cascade,
+  revision_number integer not null,
+
+  title text not null,
+  content text not null,
+  category_ids uuid[] not null default '{}',
+  tag_ids uuid[] not null default '{}',
+
+  event text not null check (event in ('created','edited','published','restored')),
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now(),
+
+  constraint post_revisions_number_unique unique (post_id, revision_number)
+);
+
+-- ============================================================================
+-- SEARCH FUNCTIONS (GET /api/search)
+-- ============================================================================
+-- NOTE:
+-- - search_query is a to_tsquery() expression built by lib/search/query.ts
+-- - ts_rank_cd / ts_headline are not expressible through PostgREST filters
+-- - Headlines are computed only for the returned page
+-- - Post text is HTML-escaped before ts_headline, so the only markup in
+--   title_highlight / snippet is the <mark> tags it adds (entities are skipped
+--   by the parser and never highlighted)
+-- ============================================================================
+create or replace function html_escape(value text)
+returns text
+language sql
+immutable
+as $$
+  select replace(replace(replace(replace(replace(value,
+    '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;');
+$$;
+
+create or replace function search_posts(
+  search_query text,
+  sort_by text default 'relevance',
+  page_limit integer default 10,
+  page_offset integer default 0
+)
+returns table (
+  id uuid,
+  title text,
+  slug text,
+  author_id uuid,
+  author_email text,
+  published_at timestamptz,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+language sql
+stable
+as $$
+  with q as (
+    select to_tsquery('english', search_query) as query
+  ),
+  page as (
+    select p.id, p.title, p.slug, p.content, p.author_id, p.published_at,
+           ts_rank_cd(p.search_vector, q.query) as rank
+    from posts p
+    cross join q
+    where p.status = 'published'
+      and p.deleted_at is null
+      and p.search_vector @@ q.query
+    order by
+      case when sort_by = 'relevance' then ts_rank_cd(p.search_vector, q.query) end desc nulls last,
+      p.published_at desc,
+      p.id desc
+    limit page_limit
+    offset page_offset
+  )
+  select page.id, page.title, page.slug, page.author_id, u.email, page.published_at, page.rank,
+         ts_headline('english', html_escape(page.title), q.query,
+           'HighlightAll=true, StartSel=<mark>, StopSel=</mark>'),
+         ts_headline('english', html_escape(page.content), q.query,
+           'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2')
+  from page
+  cross join q
+  left join users u on u.id = page.author_id
+  order by
+    case when sort_by = 'relevance' then page.rank end desc nulls last,
+    page.published_at desc,
+    page.id desc;
+$$;
+
+create or replace function count_search_posts(search_query text)
+returns bigint
+language sql
+stable
+as $$
+  select count(*)
+  from posts p
+  where p.status = 'published'
+    and p.deleted_at is null
+    and p.search_vector @@ to_tsquery('english', search_query);
+$$;
+
+-- ============================================================================
+-- COMMENT THREADS (recursive replies)
+-- ============================================================================
+-- NOTE:
+-- - Walks approved replies below root_ids, depth 1 = direct replies, up to max_depth
+-- - A non-approved reply hides its whole branch
+-- - has_more_replies: row sits at max_depth and has approved replies
+--   (loaded via GET /api/comments/{id}/thread)
+-- - Ordered oldest-first within each parent
+-- ============================================================================
+-- edited_at: see COMMENT EDITING & AUTHOR DELETION below. Added here because
+-- language sql function bodies are checked at creation (deleted_at is added with the
+-- comment count trigger above).
+alter table comments add column if not exists edited_at timestamptz;
+
+-- Return columns changed (edited_at, deleted_at); create or replace cannot alter them
+drop function if exists get_comment_threads(uuid[], integer);
+
+create or replace function get_comment_threads(root_ids uuid[], max_depth integer)
+returns table (
+  id uuid,
+  author_id uuid,
+  author_email text,
+  content text,
+  parent_comment_id uuid,
+  created_at timestamptz,
+  edited_at timestamptz,
+  deleted_at timestamptz,
+  depth integer,
+  has_more_replies boolean
+)
+language sql
+stable
+as $$
+  with recursive thread as (
+    select c.id, c.author_id, c.content, c.parent_comment_id, c.created_at,
+           c.edited_at, c.deleted_at, 1 as depth
+    from comments c
+    where c.parent_comment_id = any(root_ids)
+      and c.status = 'approved'
+
+    union all
+
+    select c.id, c.author_id, c.content, c.parent_comment_id, c.created_at,
+           c.edited_at, c.deleted_at, t.depth + 1
+    from comments c
+    join thread t on c.parent_comment_id = t.id
+    where c.status = 'approved'
+      and t.depth < max_depth
+  )
+  select t.id, t.author_id, u.email, t.content, t.parent_comment_id, t.created_at,
+         t.edited_at, t.deleted_at, t.depth,
+         t.depth = max_depth and exists (
+           select 1 from comments r
+           where r.parent_comment_id = t.id and r.status = 'approved'
+         )
+  from thread t
+  left join users u on u.id = t.author_id
+  order by t.depth, t.created_at, t.id;
+$$;
+
+-- ============================================================================
+-- CATEGORY MERGE
+-- ============================================================================
+-- NOTE:
+-- - Re-points post_categories from source_id to target_id, then deletes source
+-- - Posts already linked to target keep a single link
+-- - Child categories of source move under target
+-- - Runs as one function call, so the merge is all-or-nothing
+-- - Returns the number of posts newly linked to target
+-- ============================================================================
+create or replace function merge_categories(source_id uuid, target_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  moved integer;
+begin
+  insert into post_categories (post_id, category_id)
+  select pc.post_id, target_id
+  from post_categories pc
+  where pc.category_id = source_id
+  on conflict (post_id, category_id) do nothing;
+
+  get diagnostics moved = row_count;
+
+  update categories set parent_id = target_id
+  where parent_id = source_id and id <> target_id;
+
+  delete from post_categories where category_id = source_id;
+  delete from categories where id = source_id;
+
+  return moved;
+end;
+$$;
+
+-- ============================================================================
+-- TAG MERGE / ORPHAN CLEANUP
+-- ============================================================================
+-- NOTE:
+-- - merge_tags: same as merge_categories, for post_tags
+-- - delete_orphan_tags: removes tags no post links to; returns count
+-- ============================================================================
+create or replace function merge_tags(source_id uuid, target_id uuid)
+returns integer
+language plpgsql
+as $$
+declare
+  moved integer;
+begin
+  insert into post_tags (post_id, tag_id)
+  select pt.post_id, target_id
+  from post_tags pt
+  where pt.tag_id = source_id
+  on conflict (post_id, tag_id) do nothing;
+
+  get diagnostics moved = row_count;
+
+  delete from post_tags where tag_id = source_id;
+  delete from tags where id = source_id;
+
+  return moved;
+end;
+$$;
+
+create or replace function delete_orphan_tags()
+returns integer
+language sql
+as $$
+  with deleted as (
+    delete from tags t
+    where not exists (select 1 from post_tags pt where pt.tag_id = t.id)
+    returning 1
+  )
+  select count(*)::integer from deleted;
+$$;
+
+-- ============================================================================
+-- MODERATION AUDIT LOG
+-- ============================================================================
+-- NOTE:
+-- - Append-only: one row per comment moderation and post publish/schedule
+-- - actor_id is null for system actions (scheduled publishing worker)
+-- - actor_id / target_id carry no foreign keys: entries outlive deleted users,
+--   comments and posts
+-- - Rows cannot be updated or deleted (trigger below)
+-- ============================================================================
+create table if not exists moderation_events (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid,
+
+  target_type text not null check (target_type in ('comment','post')),
+  target_id uuid not null,
+
+  action text not null,
+  previous_state text,
+  new_state text,
+  reason text,
+
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_moderation_events_created_at
+on moderation_events (created_at desc, id desc);
+create index if not exists idx_moderation_events_actor
+on moderation_events (actor_id, created_at desc);
+create index if not exists idx_moderation_events_target
+on moderation_events (target_type, target_id);
+
+create or replace function prevent_moderation_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'moderation_events is append-only'
+    using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists moderation_events_append_only on moderation_events;
+create trigger moderation_events_append_only
+before update or delete on moderation_events
+for each row execute function prevent_moderation_event_changes();
+
+-- ============================================================================
+-- COMMENT SPAM SCORING
+-- ============================================================================
+-- NOTE:
+-- - spam_score / spam_reasons are written once at submission by lib/spam
+-- - Comments at or above SPAM_FILE_THRESHOLD are inserted with status = 'spam'
+-- - (author_id, created_at) backs the velocity heuristic
+-- ============================================================================
+alter table comments add column if not exists spam_score numeric not null default 0;
+alter table comments add column if not exists spam_reasons text[] not null default '{}';
+
+create index if not exists idx_comments_author_created_at
+on comments (author_id, created_at desc);
+
+-- ============================================================================
+-- COMMENT EDITING & AUTHOR DELETION
+-- ============================================================================
+-- NOTE:
+-- - edited_at marks comments changed by their author after submission
+-- - comment_revisions keeps the content each edit replaced (oldest first by created_at)
+-- - deleted_at marks a tombstone: the author deleted a comment that has replies,
+--   content is replaced with '[deleted]' and the row stays so the thread still renders.
+--   Comments without replies are deleted outright (revisions cascade).
+-- - edited_at is added above get_comment_threads, deleted_at with the comment count trigger;
+--   tombstones do not count towards posts.comment_count
+-- ============================================================================
+create table if not exists comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references comments(id) on delete cascade,
+
+  content text not null,
+
+  created_by uuid references users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_comment_revisions_comment
+on comment_revisions (comment_id, created_at);
+
+-- ============================================================================
+-- USER ROLES & DEACTIVATION
+-- ============================================================================
+-- NOTE:
+-- - users.role is the source of truth for authorization (managed via /api/admin/users);
+--   requireAuth reads it on every request instead of trusting the JWT
+-- - New users start as viewer; backfill existing roles once with
+--   migrate-auth-user-to-public-user.sql
+-- - deactivated_at set = account refused by requireAuth even with a valid token
+-- ============================================================================
+alter table users add column if not exists role text not null default 'viewer';
+alter table users add column if not exists deactivated_at timestamptz;
+
+alter table users drop constraint if exists users_role_check;
+alter table users add constraint users_role_check
+check (role in ('admin','editor','viewer'));
+
+create index if not exists idx_users_role on users (role);
+
+-- ============================================================================
+-- COMMENT CONTENT HASH
+-- ============================================================================
+-- NOTE:
+-- - content_hash = sha256(content) as hex, written by lib/comments on insert and edit
+-- - The duplicate-content spam heuristic matches on it instead of the full content
+-- - (author_id, content_hash, created_at) backs self-repeats; (content_hash, created_at)
+--   backs copies across authors
+-- ============================================================================
+alter table comments add column if not exists content_hash text;
+
+update comments
+set content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+where content_hash is null;
+
+alter table comments alter column content_hash set not null;
+
+create index if not exists idx_comments_author_content_hash
+on comments (author_id, content_hash, created_at desc);
+
+create index if not exists idx_comments_content_hash
+on comments (content_hash, created_at desc);
+
 -- ============================================================================
 -- END
 -- ============================================================================